@@ -0,0 +1,324 @@
+import { useMemo, useRef, useState, type ChangeEvent, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, Files, FolderOpen } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { decodeImageFile, isImageFile } from "@/lib/image-decoder";
+import { getDecoderOptions } from "@/lib/decoder";
+import { saveScans } from "@/lib/scan-storage";
+import { formatLabel } from "@/lib/barcode-formats";
+import { ruleBadgeClass, validateContent } from "@/lib/validation-rules";
+import { bytesToBase64 } from "@/lib/encoding";
+import { Badge } from "@/components/ui/badge";
+import type { ScanValidation } from "@shared/schema";
+import type { ScannerSettings } from "./ScannerSettings";
+
+interface BatchImportProps {
+  settings: ScannerSettings;
+}
+
+interface BatchRow {
+  id: number;
+  name: string;
+  status: "pending" | "decoded" | "failed";
+  content?: string;
+  format?: string;
+  decodeStep?: string;
+  rawBytes?: string;
+  validation?: ScanValidation;
+  fields?: Record<string, string>;
+  error?: string;
+}
+
+type SortKey = "name" | "content" | "format" | "rule";
+
+const compareRows = (a: BatchRow, b: BatchRow, key: SortKey) => {
+  if (key === "rule") {
+    return (a.validation?.ruleName ?? "").localeCompare(b.validation?.ruleName ?? "");
+  }
+  return (a[key] ?? "").localeCompare(b[key] ?? "");
+};
+
+export function BatchImport({ settings }: BatchImportProps) {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isMerged, setIsMerged] = useState<boolean>(false);
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 } | null>(null);
+  const cancelledRef = useRef<boolean>(false);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const { toast } = useToast();
+
+  const processed = rows.filter((row) => row.status !== "pending").length;
+  const decodedRows = rows.filter((row) => row.status === "decoded");
+
+  // One column per named capture group, in the order they first show up
+  const fieldNames = useMemo(() => {
+    const names: string[] = [];
+    rows.forEach((row) => {
+      Object.keys(row.fields ?? {}).forEach((name) => {
+        if (!names.includes(name)) names.push(name);
+      });
+    });
+    return names;
+  }, [rows]);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    return [...rows].sort((a, b) => compareRows(a, b, sort.key) * sort.direction);
+  }, [rows, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => {
+      if (current?.key !== key) return { key, direction: 1 };
+      return current.direction === 1 ? { key, direction: -1 } : null;
+    });
+  };
+
+  const runBatch = async (files: File[]) => {
+    const images = files.filter(isImageFile);
+    if (!images.length) {
+      toast({
+        variant: "destructive",
+        title: "No images found",
+        description: "The selection didn't contain any image files.",
+      });
+      return;
+    }
+
+    const queued: BatchRow[] = images.map((file, index) => ({
+      id: index,
+      name: file.webkitRelativePath || file.name,
+      status: "pending",
+    }));
+    setRows(queued);
+    setIsMerged(false);
+    setIsRunning(true);
+    cancelledRef.current = false;
+
+    for (let index = 0; index < images.length; index++) {
+      if (cancelledRef.current) break;
+
+      let update: Partial<BatchRow>;
+      try {
+        const decoded = await decodeImageFile(images[index], getDecoderOptions(settings));
+        update = decoded
+          ? {
+              status: "decoded",
+              content: decoded.text,
+              format: decoded.format,
+              decodeStep: decoded.decodeStep,
+              rawBytes: decoded.rawBytes ? bytesToBase64(decoded.rawBytes) : undefined,
+              ...validateContent(decoded.text, settings.validationRules),
+            }
+          : { status: "failed", error: "No readable barcode found" };
+      } catch (err) {
+        update = {
+          status: "failed",
+          error: err instanceof Error ? err.message : "Failed to decode image",
+        };
+      }
+      setRows((current) =>
+        current.map((row) => (row.id === index ? { ...row, ...update } : row))
+      );
+    }
+
+    if (cancelledRef.current) {
+      setRows((current) =>
+        current.map((row) =>
+          row.status === "pending" ? { ...row, status: "failed", error: "Cancelled" } : row
+        )
+      );
+    }
+    setIsRunning(false);
+  };
+
+  const mergeResults = () => {
+    try {
+      saveScans(
+        decodedRows.map((row) => ({
+          content: row.content ?? "",
+          format: row.format ?? "",
+          validation: row.validation,
+          fields: row.fields,
+          source: "image",
+          decodeStep: row.decodeStep,
+          rawBytes: row.rawBytes,
+        }))
+      );
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Results not added",
+        description: err instanceof Error ? err.message : "The scans couldn't be stored",
+      });
+      return;
+    }
+    setIsMerged(true);
+    toast({
+      title: "Results added",
+      description: `${decodedRows.length} scans added to the history.`,
+    });
+  };
+
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length) {
+      runBatch(files).catch(console.error);
+    }
+  };
+
+  const renderSortableHead = (column: SortKey, label: ReactNode) => {
+    const Icon = sort?.key !== column ? ArrowUpDown : sort.direction === 1 ? ArrowUp : ArrowDown;
+    return (
+      <TableHead>
+        <button type="button" className="inline-flex items-center" onClick={() => toggleSort(column)}>
+          {label}
+          <Icon className="ml-1 h-3 w-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          Batch import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Batch Import</DialogTitle>
+          <DialogDescription>
+            Decode a selection of images or a whole folder, then add the results to the scan history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => filesInputRef.current?.click()} disabled={isRunning}>
+            <Files className="mr-2 h-4 w-4" /> Select images
+          </Button>
+          <Button variant="outline" onClick={() => folderInputRef.current?.click()} disabled={isRunning}>
+            <FolderOpen className="mr-2 h-4 w-4" /> Select folder
+          </Button>
+          <input
+            ref={filesInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={handleFiles}
+          />
+          <input
+            ref={(element) => {
+              folderInputRef.current = element;
+              // webkitdirectory isn't in React's input typings, so set it directly
+              element?.setAttribute("webkitdirectory", "");
+            }}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleFiles}
+          />
+        </div>
+
+        {rows.length ? (
+          <>
+            <div className="space-y-1">
+              <Progress value={(processed / rows.length) * 100} />
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  {processed} of {rows.length} processed
+                </span>
+                <span>
+                  {decodedRows.length} decoded, {processed - decodedRows.length} failed
+                </span>
+              </div>
+            </div>
+
+            <div className="min-h-0 flex-1 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {renderSortableHead("name", "File")}
+                    {renderSortableHead("content", "Content")}
+                    {renderSortableHead("format", "Format")}
+                    {renderSortableHead("rule", "Rule")}
+                    {fieldNames.map((name) => (
+                      <TableHead key={name}>{name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedRows.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="max-w-[180px] truncate" title={row.name}>
+                        {row.name}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs break-all">
+                        {row.status === "pending" && <span className="text-muted-foreground">Waiting…</span>}
+                        {row.status === "failed" && <span className="text-destructive">{row.error}</span>}
+                        {row.status === "decoded" && row.content}
+                      </TableCell>
+                      <TableCell>{row.format ? formatLabel(row.format) : "—"}</TableCell>
+                      <TableCell>
+                        {row.validation ? (
+                          <Badge className={ruleBadgeClass(row.validation.color)}>
+                            {row.validation.ruleName}
+                          </Badge>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      {fieldNames.map((name) => (
+                        <TableCell key={name} className="font-mono text-xs">
+                          {row.fields?.[name] ?? "—"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        ) : null}
+
+        <DialogFooter className="gap-2">
+          {isRunning && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                cancelledRef.current = true;
+              }}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button onClick={mergeResults} disabled={isRunning || isMerged || !decodedRows.length}>
+            {isMerged ? "Added to history" : `Add ${decodedRows.length} to history`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,27 +1,59 @@
 import { useEffect, useRef, useState } from "react";
-import { BrowserMultiFormatReader, IScannerControls, BarcodeFormat } from "@zxing/browser";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Pause, Play, Camera as CameraIcon } from "lucide-react";
-import { ScannerOverlay, type ScannerOverlayHandle } from "@/components/scanner/ScannerOverlay";
+import { ScannerOverlay, type OverlayDetection, type ScannerOverlayHandle } from "@/components/scanner/ScannerOverlay";
+import { CameraControls } from "@/components/scanner/CameraControls";
+import { ManualEntry } from "@/components/scanner/ManualEntry";
+import { SegmentProgress } from "@/components/scanner/SegmentProgress";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { InsertScan } from "@shared/schema";
+import type { InsertScan, ScanSource } from "@shared/schema";
 import { ScannerSettings, type ScannerSettings as ScannerSettingsType } from "./ScannerSettings";
+import { findLatestScan, recordDuplicate, saveCombinedScan, saveScan as storeScan } from "@/lib/scan-storage";
+import { captureSnapshot, saveSnapshot } from "@/lib/snapshots";
+import { isDuplicate } from "@/lib/duplicates";
+import { validateContent } from "@/lib/validation-rules";
+import { bytesToBase64 } from "@/lib/encoding";
+import { getVideoFlip, getVideoTransform, mapRectToVideo } from "@/lib/scan-area";
+import {
+  applyResolution,
+  applyTrackConstraint,
+  buildVideoConstraints,
+  getCameraCapabilities,
+  getCameraTrackState,
+  listVideoDevices,
+  loadPreferredDeviceId,
+  savePreferredDeviceId,
+  type CameraCapabilities,
+  type CameraTrackState,
+  type ExtendedConstraintSet,
+} from "@/lib/camera";
+import { createDecoder, getDecoderOptions, type BarcodeDecoder, type DecodedBarcode } from "@/lib/decoder";
+import { isExpired, recordRead, type PendingConfirmation } from "@/lib/confirmation";
+import { createKeyboardWedgeHandler } from "@/lib/keyboard-wedge";
+import {
+  combineSegments,
+  getSegmentProgress,
+  isGroupComplete,
+  isGroupExpired,
+  recordSegment,
+  segmentGroupKey,
+  verifyParity,
+  SEGMENT_GROUP_TIMEOUT_MS,
+  type SegmentGroup,
+  type SegmentProgress as SegmentProgressState,
+} from "@/lib/segments";
 
 interface CameraProps {
   onError: (error: Error) => void;
   isScanning: boolean;
   setIsScanning: (scanning: boolean) => void;
+  settings: ScannerSettingsType;
+  onSettingsChange: (settings: ScannerSettingsType) => void;
 }
 
-// Default scanner settings
-const DEFAULT_SETTINGS: ScannerSettingsType = {
-  cooldownTime: 3000,
-  dataPattern: "^0934[0-9A-E]{28}$"
-};
-
-export function Camera({ onError, isScanning, setIsScanning }: CameraProps) {
+export function Camera({ onError, isScanning, setIsScanning, settings, onSettingsChange }: CameraProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const scannerOverlayRef = useRef<ScannerOverlayHandle>(null);
   const [hasPermission, setHasPermission] = useState<boolean>(false);
@@ -29,40 +61,71 @@ export function Camera({ onError, isScanning, setIsScanning }: CameraProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [stream, setStream] = useState<MediaStream | null>(null);
-  const readerRef = useRef<BrowserMultiFormatReader | null>(null);
+  // Mirrors `stream` so cleanup code never acts on a stale closure
+  const streamRef = useRef<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(loadPreferredDeviceId);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities | null>(null);
+  const [trackState, setTrackState] = useState<CameraTrackState>({ torch: false, zoom: null, focusMode: null });
+  const decoderRef = useRef<BarcodeDecoder | null>(null);
   const [isCoolingDown, setIsCoolingDown] = useState<boolean>(false);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const scanningProcessRef = useRef<IScannerControls | null>(null);
+  const frameRequestRef = useRef<number | null>(null);
+  const isDecodingRef = useRef<boolean>(false);
   const cooldownTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isCoolingDownRef = useRef<boolean>(false);
-  const [settings, setSettings] = useState<ScannerSettingsType>(() => {
-  try {
-    const storedSettings = localStorage.getItem('scannerSettings');
-    return storedSettings ? JSON.parse(storedSettings) : DEFAULT_SETTINGS;
-  } catch (error) {
-    console.error('Error loading settings from localStorage:', error);
-    return DEFAULT_SETTINGS;
-  }
-});
-
-// Save settings to localStorage whenever they change
-useEffect(() => {
-  try {
-    localStorage.setItem('scannerSettings', JSON.stringify(settings));
-  } catch (error) {
-    console.error('Error saving settings to localStorage:', error);
-  }
-}, [settings]);
-
-  // Reinitialize scanner when settings change
+  const confirmationRef = useRef<PendingConfirmation | null>(null);
+  const [confirmationCount, setConfirmationCount] = useState<number>(0);
+  // Contents saved while this scanner has been open, for the unique-per-session policy
+  const sessionContentsRef = useRef<Set<string>>(new Set());
+  // Per-content cooldowns used by the content-aware duplicate policies
+  const contentCooldownsRef = useRef<Map<string, number>>(new Map());
+  const [showDuplicate, setShowDuplicate] = useState<boolean>(false);
+  const duplicateTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [detection, setDetection] = useState<OverlayDetection | null>(null);
+  // Segments of multi-symbol data read so far, by segmentGroupKey
+  const segmentGroupsRef = useRef<Map<string, SegmentGroup>>(new Map());
+  // When segments of each already-saved group were last seen, by segmentGroupKey
+  const completedGroupsRef = useRef<Map<string, number>>(new Map());
+  const [segmentProgress, setSegmentProgress] = useState<SegmentProgressState[]>([]);
+  // Tell the decoder to only look for the selected formats, with the selected pre-processing
   useEffect(() => {
-    if (isScanning && hasPermission) {
-      stopScanning();
-      startScanning().catch(console.error);
+    decoderRef.current?.configure(getDecoderOptions(settings));
+  }, [settings.formats, settings.preprocessingSteps, settings.rotationAngles, settings.characterSetHint, settings.collectSegments]);
+
+  // Swap decoders when a different backend is selected
+  useEffect(() => {
+    if (decoderRef.current) {
+      decoderRef.current.dispose();
+      decoderRef.current = createActiveDecoder();
     }
-  }, [settings]);
+  }, [settings.decoderBackend]);
+
+  const createActiveDecoder = () => {
+    let decoder: BarcodeDecoder;
+    try {
+      decoder = createDecoder(settings.decoderBackend);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Decoder not available";
+      toast({
+        title: "Using ZXing decoder",
+        description: message,
+      });
+      decoder = createDecoder("zxing");
+    }
+    decoder.configure(getDecoderOptions(settings));
+    return decoder;
+  };
+
+  // Apply a changed resolution preference to the running track
+  useEffect(() => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (track) {
+      applyResolution(track, settings.preferredResolution).catch(console.error);
+    }
+  }, [settings.preferredResolution]);
 
-  const playBeep = async () => {
+  const playBeep = async (frequency = 1000, duration = 0.1) => {
     try {
       if (!audioContextRef.current) {
         audioContextRef.current = new AudioContext();
@@ -74,29 +137,21 @@ useEffect(() => {
       oscillator.connect(gainNode);
       gainNode.connect(ctx.destination);
 
-      oscillator.frequency.value = 1000;
+      oscillator.frequency.value = frequency;
       gainNode.gain.value = 0.1;
 
       oscillator.start();
-      oscillator.stop(ctx.currentTime + 0.1);
+      oscillator.stop(ctx.currentTime + duration);
     } catch (err) {
       console.error("Error playing beep:", err);
     }
   };
 
   const saveScan = {
-    mutateAsync: async (scan: InsertScan) => {
-      const storedScans = localStorage.getItem('scans');
-      const scans = storedScans ? JSON.parse(storedScans) : [];
-      const newScan = {
-        ...scan,
-        id: Date.now(),
-        timestamp: new Date(),
-      };
-      localStorage.setItem('scans', JSON.stringify([newScan, ...scans]));
-      // Emit a custom event when scan is saved
-      window.dispatchEvent(new CustomEvent('scanSaved'));
+    mutateAsync: async (scan: InsertScan, segments?: InsertScan[]) => {
+      const savedScan = segments ? saveCombinedScan(scan, segments) : storeScan(scan);
       playBeep().catch(console.error);
+      return savedScan;
     }
   };
 
@@ -115,27 +170,80 @@ useEffect(() => {
     }, settings.cooldownTime);
   };
 
-  const cleanupResources = () => {
-    stopScanning();
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
+  const isContentCoolingDown = (content: string) => {
+    const until = contentCooldownsRef.current.get(content);
+    if (until === undefined) return false;
+    if (until > Date.now()) return true;
+    contentCooldownsRef.current.delete(content);
+    return false;
+  };
+
+  // A lower, longer tone and an overlay notice, so operators can tell a
+  // suppressed duplicate apart from a new scan
+  const showDuplicateFeedback = () => {
+    playBeep(440, 0.25).catch(console.error);
+    if (duplicateTimerRef.current) {
+      clearTimeout(duplicateTimerRef.current);
+    }
+    setShowDuplicate(true);
+    duplicateTimerRef.current = setTimeout(() => {
+      setShowDuplicate(false);
+      duplicateTimerRef.current = null;
+    }, 1500);
+  };
+
+  const releaseStream = () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
     }
+    setStream(null);
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-    if (readerRef.current) {
-      readerRef.current = null;
+  };
+
+  const cleanupResources = () => {
+    stopScanning();
+    releaseStream();
+    if (decoderRef.current) {
+      decoderRef.current.dispose();
+      decoderRef.current = null;
     }
+    isDecodingRef.current = false;
     if (cooldownTimerRef.current) {
       clearTimeout(cooldownTimerRef.current);
       cooldownTimerRef.current = null;
     }
     isCoolingDownRef.current = false;
     setIsCoolingDown(false);
+    if (duplicateTimerRef.current) {
+      clearTimeout(duplicateTimerRef.current);
+      duplicateTimerRef.current = null;
+    }
+  };
+
+  const openCameraStream = async (requestedDeviceId: string | null) => {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        video: buildVideoConstraints(requestedDeviceId, settings.preferredResolution),
+        audio: false
+      });
+    } catch (err) {
+      if (!requestedDeviceId) {
+        throw err;
+      }
+      // The remembered camera may have been unplugged; fall back to the default rear camera
+      console.warn("Preferred camera unavailable, falling back:", err);
+      savePreferredDeviceId(null);
+      return navigator.mediaDevices.getUserMedia({
+        video: buildVideoConstraints(null, settings.preferredResolution),
+        audio: false
+      });
+    }
   };
 
-  const initializeCamera = async () => {
+  const initializeCamera = async (requestedDeviceId: string | null = deviceId) => {
     if (!videoRef.current) {
       console.error("Video element not found during initialization");
       return;
@@ -148,19 +256,26 @@ useEffect(() => {
         throw new Error("Camera API not supported in this browser");
       }
 
-      cleanupResources();
+      // Switching cameras only replaces the stream; the decoder worker is kept
+      stopScanning();
+      releaseStream();
 
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: "environment" },
-        audio: false
-      });
+      const mediaStream = await openCameraStream(requestedDeviceId);
 
       if (!videoRef.current) {
         throw new Error("Video element lost during initialization");
       }
 
+      streamRef.current = mediaStream;
       setStream(mediaStream);
 
+      const track = mediaStream.getVideoTracks()[0];
+      setCapabilities(getCameraCapabilities(track));
+      setTrackState(getCameraTrackState(track));
+      setDeviceId(track.getSettings().deviceId ?? requestedDeviceId);
+      // Device labels are only available once camera permission has been granted
+      listVideoDevices().then(setDevices).catch(console.error);
+
       const videoElement = videoRef.current;
       videoElement.srcObject = mediaStream;
       videoElement.setAttribute("playsinline", "true");
@@ -189,11 +304,8 @@ useEffect(() => {
         videoElement.addEventListener('loadedmetadata', handleVideoReady, { once: true });
       });
 
-      if (!readerRef.current) {
-        // Configure reader to only detect PDF417 barcodes
-        const hints = new Map();
-        hints.set(2, [BarcodeFormat.PDF_417]);
-        readerRef.current = new BrowserMultiFormatReader(hints);
+      if (!decoderRef.current) {
+        decoderRef.current = createActiveDecoder();
       }
 
       setHasPermission(true);
@@ -215,72 +327,286 @@ useEffect(() => {
     }
   };
 
-  const startScanning = async () => {
-    if (!videoRef.current || !readerRef.current || !stream) {
-      console.error("Cannot start scanning: missing required references");
+  const resetConfirmation = () => {
+    confirmationRef.current = null;
+    setConfirmationCount(0);
+  };
+
+  // segments are the scans a reassembled result was built from. Typed-in
+  // values are entered on purpose, often right after a failed read, so they
+  // neither start a cooldown nor get held back as duplicates.
+  const acceptScan = (result: DecodedBarcode, source: ScanSource = "camera", segments?: InsertScan[]) => {
+    const fromCamera = source === "camera";
+    const manual = source === "manual";
+    const { validation, fields } = validateContent(result.text, settings.validationRules);
+    if (fromCamera) {
+      // Outline the label that was read on the live video
+      setDetection({
+        id: Date.now(),
+        points: result.cornerPoints,
+        outcome: validation.outcome,
+      });
+    }
+
+    if (settings.duplicatePolicy === "time") {
+      if (!manual) startCooldown();
+    } else if (!manual) {
+      // Only repeats of the same content are held back, so a different
+      // barcode can be read straight away
+      contentCooldownsRef.current.set(result.text, Date.now() + settings.cooldownTime);
+    }
+
+    const duplicate = !manual && isDuplicate(result.text, {
+      policy: settings.duplicatePolicy,
+      windowMinutes: settings.duplicateWindowMinutes,
+      sessionContents: sessionContentsRef.current,
+      previousScan: findLatestScan(result.text),
+      now: Date.now(),
+    });
+    // Falls through to a new scan if the original entry was cleared from the history
+    if (duplicate && recordDuplicate(result.text)) {
+      showDuplicateFeedback();
       return;
     }
 
-    try {
-      const controls = await readerRef.current.decodeFromConstraints(
-        { video: { facingMode: "environment" } },
-        videoRef.current,
-        (result, error) => {
-          if (error) {
-            return;
-          }
+    // Grab the frame now, while the label is still in view
+    const snapshot = fromCamera && settings.snapshotLimit > 0 && videoRef.current
+      ? captureSnapshot(videoRef.current, result.cornerPoints, settings.snapshotQuality)
+      : null;
+
+    sessionContentsRef.current.add(result.text);
+    saveScan.mutateAsync({
+      content: result.text,
+      format: result.format,
+      validation,
+      fields,
+      source,
+      decodeStep: result.decodeStep,
+      rawBytes: result.rawBytes ? bytesToBase64(result.rawBytes) : undefined,
+    }, segments).then((savedScan) => {
+      if (snapshot) {
+        saveSnapshot({ scanId: savedScan.id, ...snapshot }, settings.snapshotLimit);
+      }
+    }).catch((err) => {
+      console.error(err);
+      toast({
+        variant: "destructive",
+        title: "Scan not saved",
+        description: err instanceof Error ? err.message : "The scan couldn't be stored",
+      });
+    });
+  };
+
+  const updateSegmentProgress = () => {
+    setSegmentProgress(Array.from(segmentGroupsRef.current.values()).map(getSegmentProgress));
+  };
 
-          if (!result) return;
+  const discardSegments = (key: string) => {
+    segmentGroupsRef.current.delete(key);
+    updateSegmentProgress();
+  };
 
-          const scannedData = result.getText();
+  // Segments skip the cooldowns and confirmation, since the operator moves
+  // straight on to the next symbol; reading one again is simply ignored.
+  // Once every segment is in, the joined data is handled as a single scan,
+  // and symbols of it still in view are ignored rather than starting over.
+  const handleSegment = (result: DecodedBarcode & { segment: NonNullable<DecodedBarcode["segment"]> }) => {
+    const now = Date.now();
+    const groups = segmentGroupsRef.current;
+    groups.forEach((group, key) => {
+      if (isGroupExpired(group, now)) groups.delete(key);
+    });
+
+    const key = segmentGroupKey({ format: result.format, groupId: result.segment.groupId });
+    const completedGroups = completedGroupsRef.current;
+    const lastSeen = completedGroups.get(key);
+    if (lastSeen !== undefined && now - lastSeen <= SEGMENT_GROUP_TIMEOUT_MS) {
+      completedGroups.set(key, now);
+      return;
+    }
+    completedGroups.delete(key);
 
-          // Process if not in cooldown
-          if (!isCoolingDownRef.current) {
-            startCooldown();
-            saveScan.mutateAsync({
-              content: scannedData,
-              format: "PDF417",
-              pattern: settings.dataPattern,
-            }).catch(console.error);
-          }
-        }
-      );
+    const previous = groups.get(key) ?? null;
+    const group = recordSegment(previous, result, now);
+    if (group === previous) {
+      return;
+    }
 
-      scanningProcessRef.current = controls;
-    } catch (err) {
-      console.error("Error starting scanning:", err);
-      onError(new Error("Failed to start scanning"));
+    if (!isGroupComplete(group)) {
+      groups.set(key, group);
+      updateSegmentProgress();
+      setDetection({ id: now, points: result.cornerPoints, outcome: "accept" });
+      playBeep(1200, 0.05).catch(console.error);
+      return;
+    }
+
+    groups.delete(key);
+    updateSegmentProgress();
+    const combined = combineSegments(group);
+    const { text, rawBytes, parts } = combined;
+    if (!verifyParity(group, combined)) {
+      setDetection({ id: now, points: result.cornerPoints, outcome: "reject" });
+      playBeep(440, 0.25).catch(console.error);
+      toast({
+        variant: "destructive",
+        title: "Parity check failed",
+        description: "The combined data doesn't match the symbols' parity. Scan the parts again.",
+      });
+      return;
     }
+    completedGroups.set(key, now);
+    const count = group.count ?? parts.length;
+    acceptScan(
+      { text, format: result.format, cornerPoints: result.cornerPoints, rawBytes },
+      "camera",
+      parts.map((part, index) => ({
+        content: part.text,
+        format: part.format,
+        source: "camera",
+        decodeStep: part.decodeStep,
+        rawBytes: part.rawBytes ? bytesToBase64(part.rawBytes) : undefined,
+        segment: { groupId: group.groupId, index, count },
+      }))
+    );
   };
 
-  const stopScanning = () => {
-    if (scanningProcessRef.current?.stop) {
-      scanningProcessRef.current.stop();
-      scanningProcessRef.current = null;
+  const handleDecoded = (result: DecodedBarcode) => {
+    if (result.segment) {
+      handleSegment({ ...result, segment: result.segment });
+      return;
+    }
+    // Process if not in cooldown
+    if (!isCoolingDownRef.current && !isContentCoolingDown(result.text)) {
+      // Wait for the same text to be read enough times in a row
+      const pending = recordRead(confirmationRef.current, result.text, Date.now());
+      if (pending.count < settings.confirmationReads) {
+        confirmationRef.current = pending;
+        setConfirmationCount(pending.count);
+        return;
+      }
+      resetConfirmation();
+
+      acceptScan(result);
+    }
+  };
+
+  // Reads from a handheld scanner have already been verified by the device,
+  // so they skip confirmation but share the cooldowns with the camera
+  const handleKeyboardScan = (text: string) => {
+    if (isCoolingDownRef.current || isContentCoolingDown(text)) {
+      return;
     }
+    acceptScan({ text, format: "", cornerPoints: [], rawBytes: null }, "keyboard");
   };
 
-  // Handle scanning state changes
+  // Typed in by the operator, so saved straight away without the cooldown check
+  const handleManualEntry = (text: string) => {
+    acceptScan({ text, format: "", cornerPoints: [], rawBytes: null }, "manual");
+  };
+
+  // Listen for handheld scanners that act as a keyboard
   useEffect(() => {
-    if (!hasPermission || !stream) return;
-
-    const handleScanningStateChange = async () => {
-      try {
-        if (isScanning) {
-          setTimeout(async () => {
-            await startScanning();
-          }, 1000);
-        } else {
-          stopScanning();
-        }
-      } catch (error) {
-        console.error("Error handling scanning state change:", error);
-        onError(new Error("Failed to change scanning state"));
+    if (!settings.keyboardWedge) {
+      return;
+    }
+    const handleKeyDown = createKeyboardWedgeHandler(
+      {
+        maxKeyIntervalMs: settings.wedgeMaxKeyInterval,
+        prefix: settings.wedgePrefix,
+        suffix: settings.wedgeSuffix,
+      },
+      handleKeyboardScan
+    );
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [settings]);
+
+  // Grab the current video frame and hand it to the decoder. Frames that
+  // arrive while the decoder is still busy are dropped rather than queued.
+  const captureFrame = async () => {
+    const videoElement = videoRef.current;
+    const decoder = decoderRef.current;
+    if (
+      isDecodingRef.current ||
+      !decoder ||
+      !videoElement ||
+      videoElement.readyState < HTMLMediaElement.HAVE_CURRENT_DATA
+    ) {
+      return;
+    }
+
+    isDecodingRef.current = true;
+    try {
+      // Only decode what's inside the overlay frame, unless full-frame decoding is selected
+      const scanArea = settings.cropToScanArea ? scannerOverlayRef.current?.getScanArea() : null;
+      const region = scanArea ? mapRectToVideo(scanArea, videoElement, getVideoFlip(settings)) : null;
+      const bitmap = region
+        ? await createImageBitmap(videoElement, region.x, region.y, region.width, region.height)
+        : await createImageBitmap(videoElement);
+      const result = await decoder.decode(bitmap, region ? { x: region.x, y: region.y } : undefined);
+
+      // Ignore frames that were still in flight when scanning was paused
+      if (result && frameRequestRef.current !== null) {
+        handleDecoded(result);
+      } else if (confirmationRef.current && isExpired(confirmationRef.current, Date.now())) {
+        resetConfirmation();
       }
+    } catch (err) {
+      console.error("Error decoding frame:", err);
+      if (decoder.error && decoderRef.current === decoder) {
+        handleDecoderFailure(decoder.error);
+      }
+    } finally {
+      isDecodingRef.current = false;
+    }
+  };
+
+  // A crashed decoder is replaced, but scanning stays paused so the operator
+  // knows frames weren't being read
+  const handleDecoderFailure = (error: Error) => {
+    decoderRef.current?.dispose();
+    decoderRef.current = createActiveDecoder();
+    setIsScanning(false);
+    toast({
+      variant: "destructive",
+      title: "Scanning stopped",
+      description: `${error.message.replace(/\.$/, "")}. Resume scanning to try again.`,
+    });
+  };
+
+  // Scanning only runs a frame loop over the stream Camera already owns, so
+  // pausing and resuming never touches the camera itself.
+  const startScanning = () => {
+    if (!videoRef.current || !decoderRef.current || !streamRef.current) {
+      console.error("Cannot start scanning: missing required references");
+      return;
+    }
+
+    stopScanning();
+
+    const tick = () => {
+      captureFrame().catch(console.error);
+      frameRequestRef.current = requestAnimationFrame(tick);
     };
+    frameRequestRef.current = requestAnimationFrame(tick);
+  };
+
+  const stopScanning = () => {
+    if (frameRequestRef.current !== null) {
+      cancelAnimationFrame(frameRequestRef.current);
+      frameRequestRef.current = null;
+    }
+    resetConfirmation();
+  };
 
-    handleScanningStateChange();
-  }, [isScanning, hasPermission, stream]);
+  // Handle scanning state changes. Restarting on settings changes rebinds the
+  // result handler so it sees the current settings.
+  useEffect(() => {
+    if (!hasPermission || !stream || !isScanning) return;
+
+    startScanning();
+    return () => stopScanning();
+  }, [isScanning, hasPermission, stream, settings]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -289,6 +615,22 @@ useEffect(() => {
     };
   }, []);
 
+  const updateTrack = async (constraint: ExtendedConstraintSet) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    setTrackState((current) => ({ ...current, ...constraint }));
+    await applyTrackConstraint(track, constraint);
+    // Read back what the camera actually applied, in case it ignored the request
+    setTrackState(getCameraTrackState(track));
+  };
+
+  const handleDeviceChange = (newDeviceId: string) => {
+    if (newDeviceId === deviceId) return;
+    setDeviceId(newDeviceId);
+    savePreferredDeviceId(newDeviceId);
+    initializeCamera(newDeviceId);
+  };
+
   const handleCameraButton = () => {
     if (!hasPermission && !isInitializing) {
       initializeCamera();
@@ -302,7 +644,7 @@ useEffect(() => {
       {/* Fixed header */}
       <div className="bg-primary text-primary-foreground py-3 px-6 shadow-md relative">
         <h1 className="text-xl font-semibold text-center">Barcode Live Scanner</h1>
-        <ScannerSettings settings={settings} onSettingsChange={setSettings} />
+        <ScannerSettings settings={settings} onSettingsChange={onSettingsChange} />
       </div>
 
       {/* Video container - using flex-1 to take remaining space */}
@@ -311,14 +653,22 @@ useEffect(() => {
           <video
             ref={videoRef}
             className={`w-full h-full object-cover transition-all duration-200 ${!isScanning ? 'opacity-50' : 'opacity-100'}`}
-            style={{ transform: `${settings.flipHorizontal ? 'scaleY(-1)' : ''} ${settings.flipVertical ? 'scaleX(-1)' : ''}`.trim() || 'none' }}
+            style={{ transform: getVideoTransform(getVideoFlip(settings)) }}
             playsInline
             autoPlay
             muted
           />
 
           <div className="absolute inset-0 z-10">
-            {hasPermission && isScanning && <ScannerOverlay ref={scannerOverlayRef} />}
+            {hasPermission && isScanning && <ScannerOverlay
+                ref={scannerOverlayRef}
+                confirmation={settings.confirmationReads > 1 ? { count: confirmationCount, required: settings.confirmationReads } : null}
+                showDuplicate={showDuplicate}
+                detection={detection}
+                detectionDuration={settings.cooldownTime}
+                videoRef={videoRef}
+                flip={getVideoFlip(settings)}
+              />}
 
             {!isScanning && hasPermission && (
               <div className="absolute inset-0 flex items-center justify-center bg-black/20">
@@ -372,6 +722,21 @@ useEffect(() => {
           </Button>
         </div>
       )}
+      {hasPermission && (
+        <CameraControls
+          devices={devices}
+          deviceId={deviceId}
+          onDeviceChange={handleDeviceChange}
+          capabilities={capabilities}
+          trackState={trackState}
+          onTorchChange={(torch) => updateTrack({ torch }).catch(console.error)}
+          onZoomChange={(zoom) => updateTrack({ zoom }).catch(console.error)}
+          onFocusModeChange={(focusMode) => updateTrack({ focusMode }).catch(console.error)}
+          disabled={isInitializing}
+        />
+      )}
+      <SegmentProgress groups={segmentProgress} onDiscard={discardSegments} />
+      <ManualEntry rules={settings.validationRules} onSubmit={handleManualEntry} />
     </div>
   );
 }
\ No newline at end of file
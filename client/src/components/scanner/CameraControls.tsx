@@ -0,0 +1,118 @@
+import { Flashlight, FlashlightOff, ZoomIn } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Toggle } from "@/components/ui/toggle";
+import type { CameraCapabilities, CameraTrackState } from "@/lib/camera";
+
+interface CameraControlsProps {
+  devices: MediaDeviceInfo[];
+  deviceId: string | null;
+  onDeviceChange: (deviceId: string) => void;
+  capabilities: CameraCapabilities | null;
+  trackState: CameraTrackState;
+  onTorchChange: (on: boolean) => void;
+  onZoomChange: (zoom: number) => void;
+  onFocusModeChange: (focusMode: string) => void;
+  disabled?: boolean;
+}
+
+const FOCUS_MODE_LABELS: Record<string, string> = {
+  continuous: "Auto focus",
+  "single-shot": "Single focus",
+  manual: "Fixed focus",
+  none: "No focus",
+};
+
+export function CameraControls({
+  devices,
+  deviceId,
+  onDeviceChange,
+  capabilities,
+  trackState,
+  onTorchChange,
+  onZoomChange,
+  onFocusModeChange,
+  disabled = false,
+}: CameraControlsProps) {
+  const hasDevicePicker = devices.length > 1;
+  const hasFocusModes = (capabilities?.focusModes.length ?? 0) > 1;
+
+  if (!hasDevicePicker && !capabilities?.torch && !capabilities?.zoom && !hasFocusModes) {
+    return null;
+  }
+
+  return (
+    <div className="px-4 pb-2.5 space-y-3">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {hasDevicePicker && (
+          <Select value={deviceId ?? undefined} onValueChange={onDeviceChange} disabled={disabled}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Select camera" />
+            </SelectTrigger>
+            <SelectContent>
+              {devices.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Camera ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {hasFocusModes && capabilities && (
+          <Select
+            value={trackState.focusMode ?? undefined}
+            onValueChange={onFocusModeChange}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Focus mode" />
+            </SelectTrigger>
+            <SelectContent>
+              {capabilities.focusModes.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {FOCUS_MODE_LABELS[mode] ?? mode}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {capabilities?.torch && (
+          <Toggle
+            variant="outline"
+            pressed={trackState.torch}
+            onPressedChange={onTorchChange}
+            disabled={disabled}
+            aria-label="Toggle torch"
+          >
+            {trackState.torch ? <Flashlight className="h-4 w-4" /> : <FlashlightOff className="h-4 w-4" />}
+          </Toggle>
+        )}
+      </div>
+
+      {capabilities?.zoom && (
+        <div className="flex items-center gap-3 max-w-sm mx-auto">
+          <ZoomIn className="h-4 w-4 text-muted-foreground shrink-0" />
+          <Slider
+            min={capabilities.zoom.min}
+            max={capabilities.zoom.max}
+            step={capabilities.zoom.step}
+            value={[trackState.zoom ?? capabilities.zoom.min]}
+            onValueChange={([zoom]) => onZoomChange(zoom)}
+            disabled={disabled}
+          />
+          <span className="text-sm text-muted-foreground w-10 text-right">
+            {(trackState.zoom ?? capabilities.zoom.min).toFixed(1)}×
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
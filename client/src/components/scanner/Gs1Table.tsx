@@ -0,0 +1,48 @@
+import { TriangleAlert } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Gs1Result } from "@/lib/gs1";
+
+interface Gs1TableProps {
+  result: Gs1Result;
+}
+
+export function Gs1Table({ result }: Gs1TableProps) {
+  return (
+    <div className="mt-2 rounded-md border bg-background text-sm">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">AI</TableHead>
+            <TableHead>Field</TableHead>
+            <TableHead>Value</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.elements.map((element, index) => (
+            <TableRow key={`${element.ai}-${index}`}>
+              <TableCell className="font-mono">({element.ai})</TableCell>
+              <TableCell>{element.title}</TableCell>
+              <TableCell>
+                <div className="font-mono break-all">{element.formatted}</div>
+                {element.error && <div className="text-xs text-destructive">{element.error}</div>}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {result.error && (
+        <div className="flex items-center gap-2 border-t px-4 py-2 text-destructive">
+          <TriangleAlert className="h-4 w-4 shrink-0" />
+          {result.error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState, type DragEvent } from "react";
+import { ImagePlus, CircleCheck, CircleX, LoaderCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { decodeImageFile, isImageFile } from "@/lib/image-decoder";
+import { getDecoderOptions } from "@/lib/decoder";
+import { saveScan } from "@/lib/scan-storage";
+import { formatLabel } from "@/lib/barcode-formats";
+import { validateContent } from "@/lib/validation-rules";
+import { bytesToBase64 } from "@/lib/encoding";
+import type { ScannerSettings } from "./ScannerSettings";
+import { BatchImport } from "./BatchImport";
+
+interface ImageImportProps {
+  settings: ScannerSettings;
+  className?: string;
+}
+
+interface ImportResult {
+  id: number;
+  name: string;
+  status: "decoding" | "saved" | "error";
+  content?: string;
+  format?: string;
+  error?: string;
+}
+
+let nextImportId = 0;
+
+export function ImageImport({ settings, className = "" }: ImageImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+
+  const updateResult = (id: number, update: Partial<ImportResult>) => {
+    setResults((current) =>
+      current.map((result) => (result.id === id ? { ...result, ...update } : result))
+    );
+  };
+
+  const importFiles = async (files: File[]) => {
+    const queued = files.map((file) => ({
+      file,
+      result: {
+        id: ++nextImportId,
+        name: file.name || "Pasted image",
+        status: "decoding" as const,
+      },
+    }));
+    setResults((current) => [...queued.map(({ result }) => result), ...current]);
+
+    // One at a time, so a large batch doesn't hold every bitmap in memory at once
+    for (const { file, result } of queued) {
+      if (!isImageFile(file)) {
+        updateResult(result.id, { status: "error", error: "Not an image file" });
+        continue;
+      }
+
+      try {
+        const decoded = await decodeImageFile(file, getDecoderOptions(settings));
+        if (!decoded) {
+          updateResult(result.id, { status: "error", error: "No readable barcode found" });
+          continue;
+        }
+
+        saveScan({
+          content: decoded.text,
+          format: decoded.format,
+          ...validateContent(decoded.text, settings.validationRules),
+          source: "image",
+          decodeStep: decoded.decodeStep,
+          rawBytes: decoded.rawBytes ? bytesToBase64(decoded.rawBytes) : undefined,
+        });
+        updateResult(result.id, {
+          status: "saved",
+          content: decoded.text,
+          format: decoded.format,
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to decode image";
+        updateResult(result.id, { status: "error", error: message });
+      }
+    }
+  };
+
+  // Accept images pasted anywhere on the page
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? []).filter(isImageFile);
+      if (!files.length) return;
+      event.preventDefault();
+      importFiles(files).catch(console.error);
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [settings]);
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length) {
+      importFiles(files).catch(console.error);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Import Images</CardTitle>
+        <div className="flex items-center gap-1">
+          <BatchImport settings={settings} />
+          {results.length ? (
+            <Button variant="ghost" size="sm" onClick={() => setResults([])}>
+              Clear
+            </Button>
+          ) : null}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center gap-3 rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+            isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25"
+          }`}
+        >
+          <ImagePlus className="h-8 w-8 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Drop label photos here, or paste an image from the clipboard
+          </p>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            Import image
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              // Reset so picking the same file again still triggers a change
+              event.target.value = "";
+              if (files.length) {
+                importFiles(files).catch(console.error);
+              }
+            }}
+          />
+        </div>
+
+        {results.length ? (
+          <div className="space-y-2">
+            {results.map((result) => (
+              <div key={result.id} className="flex items-start gap-2 text-sm">
+                {result.status === "decoding" && (
+                  <LoaderCircle className="h-4 w-4 mt-0.5 shrink-0 animate-spin text-muted-foreground" />
+                )}
+                {result.status === "saved" && (
+                  <CircleCheck className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                )}
+                {result.status === "error" && (
+                  <CircleX className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                )}
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{result.name}</div>
+                  {result.status === "saved" && (
+                    <div className="text-muted-foreground break-all">
+                      {formatLabel(result.format ?? "")}: <span className="font-mono">{result.content}</span>
+                    </div>
+                  )}
+                  {result.status === "error" && (
+                    <div className="text-destructive">{result.error}</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import { format } from "date-fns";
+import { IdCard, TriangleAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { isLicenseExpired, type AamvaLicense } from "@/lib/aamva";
+
+interface LicenseCardProps {
+  license: AamvaLicense;
+}
+
+const SEX_LABELS = {
+  male: "Male",
+  female: "Female",
+  unspecified: "Not specified",
+} as const;
+
+const formatDate = (date: Date | null) => (date ? format(date, "MMM d, yyyy") : null);
+
+export function LicenseCard({ license }: LicenseCardProps) {
+  const expired = isLicenseExpired(license);
+  const { address } = license;
+  const name = [license.firstName, license.middleName, license.lastName].filter(Boolean).join(" ");
+  const cityLine = [address.city, [address.state, address.postalCode].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+
+  const fields: [string, string | null][] = [
+    ["Name", name || null],
+    ["Date of birth", formatDate(license.dateOfBirth)],
+    ["Expires", formatDate(license.expirationDate)],
+    ["Address", [address.street, address.street2, cityLine].filter(Boolean).join("\n") || null],
+    [license.documentType === "ID" ? "ID number" : "License number", license.licenseNumber],
+    ["Class", license.licenseClass],
+    ["Sex", license.sex ? SEX_LABELS[license.sex] : null],
+  ];
+
+  return (
+    <div className="mt-2 rounded-md border bg-background p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          <IdCard className="h-4 w-4 text-muted-foreground" />
+          {license.documentType === "ID" ? "ID Card" : "Driver's License"}
+          {address.state && <span className="text-muted-foreground">· {address.state}</span>}
+        </div>
+        <Badge variant="outline">AAMVA v{license.version}</Badge>
+      </div>
+      {expired && (
+        <div className="mt-2 flex items-center gap-2 rounded-md bg-red-100 px-2 py-1 text-red-800">
+          <TriangleAlert className="h-4 w-4 shrink-0" />
+          Expired on {formatDate(license.expirationDate)}
+        </div>
+      )}
+      <dl className="mt-2 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+        {fields.map(([label, value]) =>
+          value ? (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="whitespace-pre-line">{value}</dd>
+            </div>
+          ) : null
+        )}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import { ClipboardList, Download, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MANIFEST_CHANGED_EVENT,
+  clearManifest,
+  createManifest,
+  exportMissingCsv,
+  getManifestSummary,
+  guessValueColumn,
+  loadManifest,
+  parseManifestFile,
+  saveManifest,
+  type Manifest as ManifestState,
+  type ManifestTable,
+} from "@/lib/manifest";
+
+interface ManifestProps {
+  className?: string;
+}
+
+// A file that has been read but not loaded yet, waiting for the value column
+interface PendingImport {
+  name: string;
+  table: ManifestTable;
+  column: string;
+}
+
+export function Manifest({ className = "" }: ManifestProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [manifest, setManifest] = useState<ManifestState | null>(loadManifest);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const reload = () => setManifest(loadManifest());
+    window.addEventListener(MANIFEST_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(MANIFEST_CHANGED_EVENT, reload);
+  }, []);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const table = parseManifestFile(await file.text(), file.name);
+      if (!table.rows.length) {
+        throw new Error("The file has no values");
+      }
+      setPending({ name: file.name, table, column: guessValueColumn(table.columns) });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "The file couldn't be read",
+      });
+    }
+  };
+
+  const loadPending = () => {
+    if (!pending) return;
+    const loaded = createManifest(pending.name, pending.table, pending.column);
+    saveManifest(loaded);
+    setPending(null);
+    toast({
+      title: "Manifest loaded",
+      description: `${loaded.entries.length} expected values from ${pending.name}.`,
+    });
+  };
+
+  const downloadMissing = () => {
+    if (!manifest) return;
+    const url = URL.createObjectURL(new Blob([exportMissingCsv(manifest)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `missing-${manifest.name.replace(/\.[^.]+$/, "")}.csv`;
+    link.click();
+    // Revoking straight away can cancel the download in Firefox and Safari
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const summary = manifest ? getManifestSummary(manifest) : null;
+  const found = manifest?.entries.filter((entry) => entry.foundScanId !== undefined) ?? [];
+  const missing = manifest?.entries.filter((entry) => entry.foundScanId === undefined) ?? [];
+
+  const renderPending = (pendingImport: PendingImport) => {
+    const count = new Set(
+      pendingImport.table.rows.map((row) => row[pendingImport.column]?.trim()).filter(Boolean)
+    ).size;
+    return (
+      <div className="space-y-3">
+        <div className="text-sm">
+          <span className="font-medium">{pendingImport.name}</span>{" "}
+          <span className="text-muted-foreground">({pendingImport.table.rows.length} rows)</span>
+        </div>
+        {pendingImport.table.columns.length > 1 && (
+          <Select
+            value={pendingImport.column}
+            onValueChange={(column) => setPending({ ...pendingImport, column })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pendingImport.table.columns.map((column) => (
+                <SelectItem key={column} value={column}>
+                  Values from: {column}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="text-xs text-muted-foreground">
+          {count} distinct values, e.g.{" "}
+          <span className="font-mono">{pendingImport.table.rows[0][pendingImport.column] || "(empty)"}</span>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={loadPending} disabled={!count}>
+            Load {count} values
+          </Button>
+          <Button variant="ghost" onClick={() => setPending(null)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderList = (items: { key: string; value: string; detail?: string }[], empty: string) =>
+    items.length ? (
+      <ul className="max-h-64 overflow-auto space-y-1 text-sm">
+        {items.map((item) => (
+          <li key={item.key} className="flex items-baseline justify-between gap-2">
+            <span className="min-w-0 font-mono break-all">{item.value}</span>
+            {item.detail && <span className="shrink-0 text-xs text-muted-foreground">{item.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <div className="p-2 text-center text-sm text-muted-foreground">{empty}</div>
+    );
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Expected Codes</CardTitle>
+        <div className="flex items-center gap-1">
+          {manifest && (
+            <Button variant="ghost" size="sm" onClick={downloadMissing} disabled={!missing.length}>
+              <Download className="mr-2 h-4 w-4" /> Export missing
+            </Button>
+          )}
+          {manifest && (
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={clearManifest}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove manifest</span>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending ? (
+          renderPending(pending)
+        ) : manifest && summary ? (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-baseline justify-between gap-2 text-sm">
+                <span className="font-medium truncate">{manifest.name}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {summary.found} of {summary.expected} found
+                </span>
+              </div>
+              <Progress value={summary.expected ? (summary.found / summary.expected) * 100 : 0} className="h-2" />
+              <div className="text-xs text-muted-foreground">
+                {summary.missing} missing, {summary.unexpected} unexpected
+              </div>
+            </div>
+            <Tabs defaultValue="missing">
+              <TabsList className="w-full">
+                <TabsTrigger value="missing" className="flex-1">Missing ({summary.missing})</TabsTrigger>
+                <TabsTrigger value="found" className="flex-1">Found ({summary.found})</TabsTrigger>
+                <TabsTrigger value="unexpected" className="flex-1">Unexpected ({summary.unexpected})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="missing">
+                {renderList(
+                  missing.map((entry) => ({ key: entry.value, value: entry.value })),
+                  "Everything on the list has been scanned"
+                )}
+              </TabsContent>
+              <TabsContent value="found">
+                {renderList(
+                  found.map((entry) => ({
+                    key: entry.value,
+                    value: entry.value,
+                    detail: entry.foundAt && formatDistanceToNow(new Date(entry.foundAt), { addSuffix: true }),
+                  })),
+                  "Nothing on the list has been scanned yet"
+                )}
+              </TabsContent>
+              <TabsContent value="unexpected">
+                {renderList(
+                  manifest.unexpected.map((scan) => ({
+                    key: String(scan.scanId),
+                    value: scan.content,
+                    detail: formatDistanceToNow(new Date(scan.scannedAt), { addSuffix: true }),
+                  })),
+                  "No scans outside the list"
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        ) : (
+          <div className="flex flex-col items-center gap-3 p-2 text-center">
+            <ClipboardList className="h-8 w-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Import a CSV or JSON list of expected barcode values to check them off as they're scanned
+            </p>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              Import list
+            </Button>
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+          className="hidden"
+          onChange={(event) => {
+            handleFile(event).catch(console.error);
+          }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, type FormEvent } from "react";
+import { Keyboard } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { checkPattern } from "@/lib/validation";
+import { evaluateRules, type ValidationRule } from "@/lib/validation-rules";
+
+interface ManualEntryProps {
+  rules: ValidationRule[];
+  onSubmit: (content: string) => void;
+}
+
+const OUTCOME_TEXT_CLASSES = {
+  accept: "text-green-700",
+  warn: "text-amber-700",
+  reject: "text-destructive",
+} as const;
+
+export function ManualEntry({ rules, onSubmit }: ManualEntryProps) {
+  const [value, setValue] = useState("");
+  const content = value.trim();
+  const validation = evaluateRules(content, rules);
+  // When nothing matches, point out where the value breaks the first rule
+  // that would accept it, since that's most likely what was intended
+  const target = validation.ruleId ? null : rules.find((rule) => rule.outcome === "accept");
+  const check = target ? checkPattern(content, target.pattern) : null;
+  const errorIndex = check?.errorIndex ?? null;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!content) return;
+    onSubmit(content);
+    setValue("");
+  };
+
+  const renderFeedback = () => {
+    if (validation.reason) {
+      return <span className="text-destructive">{validation.reason} for {validation.ruleName}</span>;
+    }
+    if (validation.ruleId) {
+      return (
+        <span className={OUTCOME_TEXT_CLASSES[validation.outcome]}>
+          {validation.outcome === "reject" ? "Rejected by" : "Matches"} {validation.ruleName}
+        </span>
+      );
+    }
+    if (!target || errorIndex === null) {
+      return <span className="text-destructive">Doesn't match any rule</span>;
+    }
+    if (errorIndex >= content.length) {
+      return <span className="text-amber-700">Incomplete, more characters expected for {target.name}</span>;
+    }
+    return (
+      <span className="text-destructive">
+        Unexpected "{content[errorIndex]}" at position {errorIndex + 1} for {target.name}
+      </span>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="px-4 pb-2.5 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <Keyboard className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <Input
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          placeholder="Type a barcode value"
+          className="font-mono"
+          autoComplete="off"
+          spellCheck={false}
+        />
+        <Button type="submit" variant="outline" disabled={!content}>
+          Save
+        </Button>
+      </div>
+      {content && (
+        <div className="pl-6 text-xs space-y-0.5">
+          {/* Everything from the first offending character on is highlighted */}
+          {errorIndex !== null && errorIndex < content.length && (
+            <div className="font-mono break-all">
+              {content.slice(0, errorIndex)}
+              <span className="bg-red-100 text-red-700 rounded-sm">{content.slice(errorIndex)}</span>
+            </div>
+          )}
+          <div>{renderFeedback()}</div>
+        </div>
+      )}
+    </form>
+  );
+}
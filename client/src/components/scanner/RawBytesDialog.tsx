@@ -0,0 +1,52 @@
+import { TriangleAlert } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { base64ToBytes, detectEncodingIssues, hexDump } from "@/lib/encoding";
+import type { Scan } from "@shared/schema";
+
+interface RawBytesDialogProps {
+  scan: Scan | null;
+  onClose: () => void;
+}
+
+export function RawBytesDialog({ scan, onClose }: RawBytesDialogProps) {
+  const rawBytes = scan?.rawBytes ? base64ToBytes(scan.rawBytes) : null;
+  // Without the original bytes, show what the text looks like as UTF-8
+  const bytes = rawBytes ?? new TextEncoder().encode(scan?.content ?? "");
+  const issues = scan ? detectEncodingIssues(scan.content, rawBytes) : [];
+
+  return (
+    <Dialog open={!!scan} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Raw Bytes</DialogTitle>
+          <DialogDescription>
+            {rawBytes
+              ? `${bytes.length} bytes as read from the barcode`
+              : `The decoder didn't report the original bytes, so this is the text encoded as UTF-8 (${bytes.length} bytes)`}
+          </DialogDescription>
+        </DialogHeader>
+        {issues.length > 0 && (
+          <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+            {issues.map((issue) => (
+              <div key={issue.message}>
+                <div className="flex items-center gap-2">
+                  <TriangleAlert className="h-4 w-4 shrink-0" />
+                  {issue.message}
+                </div>
+                {issue.suggestion && (
+                  <div className="mt-1 pl-6">
+                    As {issue.suggestion.characterSet}:{" "}
+                    <span className="font-mono break-all">{issue.suggestion.text}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <pre className="max-h-[60vh] overflow-auto rounded-md bg-muted p-3 font-mono text-xs">
+          {hexDump(bytes)}
+        </pre>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,34 +1,120 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Binary, Check, History, PencilLine, TriangleAlert, X } from "lucide-react";
 import type { Scan } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { formatLabel } from "@/lib/barcode-formats";
+import { matchesPattern } from "@/lib/validation";
+import { ruleBadgeClass, validateContent, type RuleOutcome, type ValidationRule } from "@/lib/validation-rules";
+import {
+  SCAN_SAVED_EVENT,
+  clearScans as clearStoredScans,
+  correctScan,
+  loadScans as loadStoredScans,
+} from "@/lib/scan-storage";
+import { MANIFEST_CHANGED_EVENT, loadManifest, resolveUnexpectedScan, type Manifest } from "@/lib/manifest";
+import { findNearMatches, type NearMatch } from "@/lib/near-match";
+import { SNAPSHOTS_CHANGED_EVENT, clearSnapshots, loadSnapshots, type Snapshot } from "@/lib/snapshots";
+import { parseAamva } from "@/lib/aamva";
+import { parseGs1 } from "@/lib/gs1";
+import { base64ToBytes, detectEncodingIssues } from "@/lib/encoding";
+import { LicenseCard } from "./LicenseCard";
+import { Gs1Table } from "./Gs1Table";
+import { RawBytesDialog } from "./RawBytesDialog";
 
 interface ScanResultProps {
+  // Used to re-validate scans corrected to a suggested match
+  rules: ValidationRule[];
   className?: string;
 }
 
-export function ScanResult({ className = "" }: ScanResultProps) {
+const OUTCOME_ROW_CLASSES: Record<RuleOutcome, string> = {
+  accept: "bg-green-50 border-green-200",
+  warn: "bg-amber-50 border-amber-200",
+  reject: "bg-red-50 border-red-200",
+};
+
+// Scans saved before validation rules only recorded the data pattern
+const getOutcome = (scan: Scan): RuleOutcome =>
+  scan.validation?.outcome ?? (matchesPattern(scan.content, scan.pattern) ? "accept" : "reject");
+
+// Suggestions for scans that were recorded as unexpected against the
+// manifest, from the values that are still missing. Each scan is compared
+// once and its matches cached by scan ID; values found since are dropped.
+function suggestNearMatches(manifest: Manifest | null, cache: Map<number, NearMatch[]>) {
+  const suggestions = new Map<number, NearMatch[]>();
+  if (!manifest) {
+    return suggestions;
+  }
+  const missing = manifest.entries.filter((entry) => entry.foundScanId === undefined).map((entry) => entry.value);
+  const stillMissing = new Set(missing);
+  manifest.unexpected.forEach(({ scanId, content }) => {
+    let matches = cache.get(scanId);
+    if (!matches) {
+      matches = findNearMatches(content, missing);
+      cache.set(scanId, matches);
+    }
+    const current = matches.filter((match) => stillMissing.has(match.value));
+    if (current.length) suggestions.set(scanId, current);
+  });
+  return suggestions;
+}
+
+export function ScanResult({ rules, className = "" }: ScanResultProps) {
   const [scans, setScans] = useState<Scan[]>([]);
+  // Segments are listed under the scan they were combined into
+  const segmentScans = new Map(scans.filter((scan) => scan.combinedScanId).map((scan) => [scan.id, scan]));
+  const listedScans = scans.filter((scan) => !scan.combinedScanId);
+  const [snapshots, setSnapshots] = useState<Map<number, Snapshot>>(new Map());
+  const [openSnapshot, setOpenSnapshot] = useState<Snapshot | null>(null);
+  const [bytesScan, setBytesScan] = useState<Scan | null>(null);
+  const [manifest, setManifest] = useState<Manifest | null>(loadManifest);
+  // Cached matches only hold for the manifest they were found against
+  const suggestionCacheRef = useRef({ importedAt: manifest?.importedAt, matches: new Map<number, NearMatch[]>() });
+  const suggestions = useMemo(() => {
+    if (suggestionCacheRef.current.importedAt !== manifest?.importedAt) {
+      suggestionCacheRef.current = { importedAt: manifest?.importedAt, matches: new Map() };
+    }
+    return suggestNearMatches(manifest, suggestionCacheRef.current.matches);
+  }, [manifest]);
 
   const loadScans = () => {
-    const storedScans = localStorage.getItem('scans');
-    if (storedScans) {
-      setScans(JSON.parse(storedScans));
-    }
+    setScans(loadStoredScans());
+    setSnapshots(new Map(loadSnapshots().map((snapshot) => [snapshot.scanId, snapshot])));
   };
 
   useEffect(() => {
     loadScans();
-    window.addEventListener('scanSaved', loadScans);
-    return () => window.removeEventListener('scanSaved', loadScans);
+    window.addEventListener(SCAN_SAVED_EVENT, loadScans);
+    window.addEventListener(SNAPSHOTS_CHANGED_EVENT, loadScans);
+    return () => {
+      window.removeEventListener(SCAN_SAVED_EVENT, loadScans);
+      window.removeEventListener(SNAPSHOTS_CHANGED_EVENT, loadScans);
+    };
   }, []);
 
+  useEffect(() => {
+    const reloadManifest = () => setManifest(loadManifest());
+    window.addEventListener(MANIFEST_CHANGED_EVENT, reloadManifest);
+    return () => window.removeEventListener(MANIFEST_CHANGED_EVENT, reloadManifest);
+  }, []);
+
+  const confirmMatch = (scan: Scan, value: string) => {
+    correctScan(
+      scan.id,
+      { content: value, ...validateContent(value, rules) },
+      "Confirmed as a near match to an expected value"
+    );
+    resolveUnexpectedScan(scan.id, value);
+  };
+
   const clearScans = () => {
-    localStorage.removeItem('scans');
-    setScans([]);
+    clearSnapshots();
+    clearStoredScans();
   };
 
   return (
@@ -48,34 +134,188 @@ export function ScanResult({ className = "" }: ScanResultProps) {
         ) : null}
       </CardHeader>
       <CardContent>
-        {scans?.length ? (
+        {listedScans.length ? (
           <div className="space-y-4">
-            {scans.map((scan) => (
-              <div
-                key={scan.id}
-                className={`p-4 rounded-lg border ${
-                  new RegExp(scan.pattern || "").test(scan.content)
-                    ? "bg-green-50 border-green-200"
-                    : "bg-red-50 border-red-200"
-                }`}
-              >
-                <div className="text-sm text-muted-foreground">
-                  {formatDistanceToNow(new Date(scan.timestamp), {
-                    addSuffix: true,
-                  })}
-                </div>
-                <div className="mt-1 font-mono text-sm break-all">
-                  {scan.content}
+            {listedScans.map((scan) => {
+              const snapshot = snapshots.get(scan.id);
+              const license = parseAamva(scan.content);
+              const gs1 = license ? null : parseGs1(scan.content);
+              const encodingIssues = detectEncodingIssues(
+                scan.content,
+                scan.rawBytes ? base64ToBytes(scan.rawBytes) : null
+              );
+              return (
+                <div
+                  key={scan.id}
+                  className={`p-4 rounded-lg border ${scan.source === "manual" ? "border-dashed" : ""} ${OUTCOME_ROW_CLASSES[getOutcome(scan)]}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(scan.timestamp), {
+                        addSuffix: true,
+                      })}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {scan.duplicateCount ? (
+                        <Badge
+                          variant="secondary"
+                          title={scan.lastSeenAt ? `Last seen ${formatDistanceToNow(new Date(scan.lastSeenAt), { addSuffix: true })}` : undefined}
+                        >
+                          Seen {scan.duplicateCount + 1}×
+                        </Badge>
+                      ) : null}
+                      {scan.source === "manual" ? (
+                        <Badge className="border-amber-300 bg-amber-100 text-amber-900 hover:bg-amber-100">
+                          <PencilLine className="mr-1 h-3 w-3" />
+                          Typed in
+                        </Badge>
+                      ) : scan.source && scan.source !== "camera" && (
+                        <Badge variant="secondary" className="capitalize">
+                          {scan.source}
+                        </Badge>
+                      )}
+                      {/* Keyboard scanners and manual entries don't report the symbology */}
+                      {scan.format && (
+                        <Badge variant="outline" className="bg-background">
+                          {formatLabel(scan.format)}
+                        </Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setBytesScan(scan)}
+                        className={`h-6 w-6 ${encodingIssues.length ? "text-amber-600" : ""}`}
+                        title={encodingIssues.length ? encodingIssues[0].message : "View raw bytes"}
+                      >
+                        {encodingIssues.length ? <TriangleAlert className="h-4 w-4" /> : <Binary className="h-4 w-4" />}
+                        <span className="sr-only">View raw bytes</span>
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="mt-1 flex items-start gap-3">
+                    {snapshot && (
+                      <button
+                        type="button"
+                        onClick={() => setOpenSnapshot(snapshot)}
+                        className="shrink-0 overflow-hidden rounded border bg-background"
+                      >
+                        <img src={snapshot.thumbnail} alt="Scan snapshot" className="h-12 w-auto max-w-[96px] object-cover" />
+                        <span className="sr-only">View snapshot</span>
+                      </button>
+                    )}
+                    {license || gs1 ? (
+                      // Structured payloads are shown parsed below; the raw data is
+                      // long and full of control characters
+                      <details className="min-w-0 text-sm">
+                        <summary className="cursor-pointer text-muted-foreground">Raw data</summary>
+                        <div className="font-mono break-all whitespace-pre-wrap">{scan.content}</div>
+                      </details>
+                    ) : (
+                      <div className="min-w-0 font-mono text-sm break-all">
+                        {scan.content}
+                      </div>
+                    )}
+                  </div>
+                  {scan.fields && (
+                    <dl className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                      {Object.entries(scan.fields).map(([name, value]) => (
+                        <div key={name} className="flex gap-1">
+                          <dt className="text-muted-foreground">{name}:</dt>
+                          <dd className="font-mono">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                  {suggestions.get(scan.id) && (
+                    <div className="mt-2 space-y-1 rounded-md border border-dashed bg-background p-2 text-xs">
+                      <div className="text-muted-foreground">Not on the expected list. Did you mean:</div>
+                      {suggestions.get(scan.id)?.map((match) => (
+                        <div key={match.value} className="flex items-center gap-2">
+                          <span className="min-w-0 flex-1 font-mono break-all">
+                            {match.parts.map((part, index) =>
+                              part.changed ? (
+                                <mark key={index} className="rounded-sm bg-amber-200 text-amber-900">{part.text}</mark>
+                              ) : (
+                                <span key={index}>{part.text}</span>
+                              )
+                            )}
+                          </span>
+                          <span className="shrink-0 text-muted-foreground">
+                            {match.distance} {match.distance === 1 ? "character" : "characters"} off
+                          </span>
+                          <Button variant="outline" size="sm" className="h-7 shrink-0" onClick={() => confirmMatch(scan, match.value)}>
+                            <Check className="mr-1 h-3 w-3" /> Confirm
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {scan.validation && (
+                    <div className="mt-2 flex items-center gap-2 text-xs">
+                      <Badge className={ruleBadgeClass(scan.validation.color)}>
+                        {scan.validation.ruleName}
+                      </Badge>
+                      {scan.validation.reason ? (
+                        <span className="text-destructive">{scan.validation.reason}</span>
+                      ) : scan.validation.label && (
+                        <span className="text-muted-foreground">{scan.validation.label}</span>
+                      )}
+                    </div>
+                  )}
+                  {scan.segmentIds && (
+                    <details className="mt-2 text-xs">
+                      <summary className="cursor-pointer text-muted-foreground">
+                        Combined from {scan.segmentIds.length} segments
+                      </summary>
+                      <ol className="mt-1 space-y-1">
+                        {scan.segmentIds.map((segmentId, index) => (
+                          <li key={segmentId} className="flex gap-2">
+                            <span className="shrink-0 text-muted-foreground">{index + 1}.</span>
+                            <span className="min-w-0 font-mono break-all">
+                              {segmentScans.get(segmentId)?.content ?? "Segment no longer stored"}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                    </details>
+                  )}
+                  {license && <LicenseCard license={license} />}
+                  {gs1 && <Gs1Table result={gs1} />}
+                  {scan.auditTrail?.map((entry, index) => (
+                    <div key={index} className="mt-1 flex items-center gap-1 text-xs text-muted-foreground" title={entry.reason}>
+                      <History className="h-3 w-3 shrink-0" />
+                      <span className="min-w-0 break-all">
+                        Corrected from <span className="font-mono">{entry.from}</span>{" "}
+                        {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+                      </span>
+                    </div>
+                  ))}
+                  {scan.decodeStep && scan.decodeStep !== "original" && (
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      Read after {scan.decodeStep.toLowerCase()}
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         ) : (
           <div className="text-center text-muted-foreground p-4">
-            No scans yet. Scan a PDF417 barcode to get started.
+            No scans yet. Scan a barcode to get started.
           </div>
         )}
       </CardContent>
+      <Dialog open={!!openSnapshot} onOpenChange={(open) => !open && setOpenSnapshot(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Scan Snapshot</DialogTitle>
+          </DialogHeader>
+          {openSnapshot && (
+            <img src={openSnapshot.image} alt="Scan snapshot" className="w-full rounded-md" />
+          )}
+        </DialogContent>
+      </Dialog>
+      <RawBytesDialog scan={bytesScan} onClose={() => setBytesScan(null)} />
     </Card>
   );
 }
@@ -1,11 +1,89 @@
-import { forwardRef, useImperativeHandle, useRef } from "react";
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState, type RefObject } from "react";
+import { convexHull, mapPointToElement, type VideoFlip } from "@/lib/scan-area";
+import type { DecodedPoint } from "@/lib/decoder";
+import type { RuleOutcome } from "@/lib/validation-rules";
+
+const OUTCOME_COLORS: Record<RuleOutcome, string> = {
+  accept: "#34C759",
+  warn: "#FF9500",
+  reject: "#FF3B30",
+};
+
+export interface OverlayDetection {
+  // Distinguishes repeated detections of the same barcode
+  id: number;
+  // In video pixel coordinates
+  points: DecodedPoint[];
+  outcome: RuleOutcome;
+}
 
 export interface ScannerOverlayHandle {
   getScanArea: () => DOMRect | null;
 }
 
-export const ScannerOverlay = forwardRef<ScannerOverlayHandle>((_, ref) => {
+interface ScannerOverlayProps {
+  // Progress towards the required number of identical reads
+  confirmation?: { count: number; required: number } | null;
+  // Briefly set when a read was suppressed as a duplicate
+  showDuplicate?: boolean;
+  // Outline of the last accepted barcode, drawn over the video
+  detection?: OverlayDetection | null;
+  // How long the outline stays before fading out
+  detectionDuration?: number;
+  videoRef?: RefObject<HTMLVideoElement>;
+  flip?: VideoFlip;
+}
+
+export const ScannerOverlay = forwardRef<ScannerOverlayHandle, ScannerOverlayProps>(({ confirmation, showDuplicate = false, detection, detectionDuration = 3000, videoRef, flip }, ref) => {
   const scanAreaRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showDetection, setShowDetection] = useState<boolean>(false);
+
+  // Draw the detected symbol's outline and result points, then fade it out
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef?.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !video || !context || !detection?.points.length) {
+      setShowDetection(false);
+      return;
+    }
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = video.clientWidth * ratio;
+    canvas.height = video.clientHeight * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, video.clientWidth, video.clientHeight);
+
+    const color = OUTCOME_COLORS[detection.outcome];
+    const points = detection.points.map((point) =>
+      mapPointToElement(point, video, flip ?? { mirrorX: false, mirrorY: false })
+    );
+
+    const outline = convexHull(points);
+    if (outline.length >= 3) {
+      context.beginPath();
+      context.moveTo(outline[0].x, outline[0].y);
+      outline.slice(1).forEach(({ x, y }) => context.lineTo(x, y));
+      context.closePath();
+      context.strokeStyle = color;
+      context.lineWidth = 3;
+      context.fillStyle = `${color}33`;
+      context.fill();
+      context.stroke();
+    }
+
+    context.fillStyle = color;
+    points.forEach(({ x, y }) => {
+      context.beginPath();
+      context.arc(x, y, 4, 0, Math.PI * 2);
+      context.fill();
+    });
+
+    setShowDetection(true);
+    const timer = setTimeout(() => setShowDetection(false), detectionDuration);
+    return () => clearTimeout(timer);
+  }, [detection]);
 
   useImperativeHandle(ref, () => ({
     getScanArea: () => scanAreaRef.current?.getBoundingClientRect() ?? null
@@ -13,6 +91,10 @@ export const ScannerOverlay = forwardRef<ScannerOverlayHandle>((_, ref) => {
 
   return (
     <div className="absolute inset-0 pointer-events-none">
+      <canvas
+        ref={canvasRef}
+        className={`absolute inset-0 h-full w-full transition-opacity duration-500 ${showDetection ? "opacity-100" : "opacity-0"}`}
+      />
       <div 
         ref={scanAreaRef}
         className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-4/5 aspect-[3/1] border-2 border-[#34C759] rounded-lg"
@@ -23,6 +105,24 @@ export const ScannerOverlay = forwardRef<ScannerOverlayHandle>((_, ref) => {
           <div className="absolute bottom-0 left-0 w-3 h-3 border-b-2 border-l-2 border-[#34C759]" />
           <div className="absolute bottom-0 right-0 w-3 h-3 border-b-2 border-r-2 border-[#34C759]" />
         </div>
+        {showDuplicate && (
+          <div className="absolute left-1/2 top-2 -translate-x-1/2 rounded bg-amber-500/90 px-2 py-0.5 text-xs font-medium text-white">
+            Already scanned
+          </div>
+        )}
+        {confirmation && confirmation.count > 0 && (
+          <div className="absolute left-0 right-0 top-full mt-2 flex flex-col items-center gap-1">
+            <div className="h-1.5 w-1/2 overflow-hidden rounded-full bg-white/30">
+              <div
+                className="h-full bg-[#34C759] transition-all duration-150"
+                style={{ width: `${(confirmation.count / confirmation.required) * 100}%` }}
+              />
+            </div>
+            <span className="rounded bg-black/50 px-2 text-xs text-white">
+              Confirming {confirmation.count}/{confirmation.required}
+            </span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -14,6 +14,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -22,23 +23,94 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SUPPORTED_FORMATS, DEFAULT_FORMATS } from "@/lib/barcode-formats";
+import { RESOLUTIONS, RESOLUTION_KEYS } from "@/lib/camera";
+import { DECODER_BACKENDS, DECODER_BACKEND_KEYS } from "@/lib/decoder";
+import { DUPLICATE_POLICIES, DUPLICATE_POLICY_KEYS } from "@/lib/duplicates";
+import { DEFAULT_RULES, validationRuleSchema } from "@/lib/validation-rules";
+import { SNAPSHOT_QUALITIES, SNAPSHOT_QUALITY_KEYS } from "@/lib/snapshots";
+import { PREPROCESSING_STEPS, PREPROCESSING_STEP_KEYS, ROTATION_ANGLES } from "@/lib/preprocessing";
+import { CHARACTER_SET_HINTS, CHARACTER_SET_HINT_KEYS } from "@/lib/encoding";
+import { ValidationRulesEditor } from "./ValidationRulesEditor";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
 
 const settingsSchema = z.object({
   cooldownTime: z.coerce
     .number()
     .min(0, "Cooldown time must be positive")
     .max(10000, "Cooldown time must be less than 10 seconds"),
-  dataPattern: z.string().min(1, "Pattern is required"),
+  duplicatePolicy: z.enum(DUPLICATE_POLICY_KEYS),
+  duplicateWindowMinutes: z.coerce
+    .number()
+    .min(1, "Window must be at least 1 minute")
+    .max(1440, "Window must be 24 hours or less"),
+  validationRules: z.array(validationRuleSchema),
+  confirmationReads: z.coerce
+    .number()
+    .int("Confirmation reads must be a whole number")
+    .min(1, "At least one read is required")
+    .max(10, "Confirmation reads must be 10 or fewer"),
+  formats: z.array(z.string()).min(1, "Select at least one barcode format"),
+  cropToScanArea: z.boolean(),
+  decoderBackend: z.enum(DECODER_BACKEND_KEYS),
+  collectSegments: z.boolean(),
+  preferredResolution: z.enum(RESOLUTION_KEYS),
   flipHorizontal: z.boolean(),
   flipVertical: z.boolean(),
+  snapshotQuality: z.enum(SNAPSHOT_QUALITY_KEYS),
+  snapshotLimit: z.coerce
+    .number()
+    .int("Snapshot limit must be a whole number")
+    .min(0, "Snapshot limit must be positive")
+    .max(200, "Snapshot limit must be 200 or fewer"),
+  preprocessingSteps: z.array(z.enum(PREPROCESSING_STEP_KEYS)),
+  rotationAngles: z.array(z.number()),
+  characterSetHint: z.enum(CHARACTER_SET_HINT_KEYS),
+  keyboardWedge: z.boolean(),
+  wedgeMaxKeyInterval: z.coerce
+    .number()
+    .min(5, "Key interval must be at least 5 ms")
+    .max(500, "Key interval must be 500 ms or less"),
+  wedgePrefix: z.string(),
+  wedgeSuffix: z.string(),
 });
 
 // Default settings as a constant for reuse
-const DEFAULT_SETTINGS = {
+export const DEFAULT_SETTINGS: ScannerSettings = {
   cooldownTime: 3000,
-  dataPattern: "^0934[0-9A-E]{28}$",
+  duplicatePolicy: "time",
+  duplicateWindowMinutes: 5,
+  validationRules: DEFAULT_RULES,
+  confirmationReads: 1,
+  formats: DEFAULT_FORMATS,
+  cropToScanArea: true,
+  decoderBackend: "auto",
+  collectSegments: false,
+  preferredResolution: "auto",
   flipHorizontal: false,
-  flipVertical: false
+  flipVertical: false,
+  snapshotQuality: "medium",
+  snapshotLimit: 20,
+  preprocessingSteps: [],
+  rotationAngles: [],
+  characterSetHint: "auto",
+  keyboardWedge: false,
+  wedgeMaxKeyInterval: 50,
+  wedgePrefix: "",
+  wedgeSuffix: "",
 };
 
 export type ScannerSettings = z.infer<typeof settingsSchema>;
@@ -54,6 +126,7 @@ export function ScannerSettings({ settings, onSettingsChange }: ScannerSettingsP
     resolver: zodResolver(settingsSchema),
     defaultValues: settings,
   });
+  const duplicatePolicy = form.watch("duplicatePolicy");
 
   const resetZoom = () => {
     const viewport = document.querySelector('meta[name="viewport"]');
@@ -95,7 +168,7 @@ export function ScannerSettings({ settings, onSettingsChange }: ScannerSettingsP
           <span className="sr-only">Scanner Settings</span>
         </Button>
       </DialogTrigger>
-      <DialogContent onOpenAutoFocus={(e) => {
+      <DialogContent className="max-h-[90vh] overflow-y-auto" onOpenAutoFocus={(e) => {
         e.preventDefault();
         document.querySelector<HTMLButtonElement>('button[type="button"][variant="outline"]')?.focus();
       }}>
@@ -119,13 +192,199 @@ export function ScannerSettings({ settings, onSettingsChange }: ScannerSettingsP
             />
             <FormField
               control={form.control}
-              name="dataPattern"
+              name="duplicatePolicy"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Expected Data Pattern (Regex)</FormLabel>
+                  <FormLabel>Duplicate Handling</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DUPLICATE_POLICY_KEYS.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {DUPLICATE_POLICIES[key]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {duplicatePolicy === "time"
+                      ? "Every scan is blocked until the cooldown ends"
+                      : "Different barcodes are accepted right away; repeats are counted on the existing entry"}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {duplicatePolicy === "window" && (
+              <FormField
+                control={form.control}
+                name="duplicateWindowMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duplicate Window (minutes)</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} onBlur={handleBlur} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="validationRules"
+              render={() => (
+                <FormItem>
+                  <FormLabel>Validation Rules</FormLabel>
+                  <FormDescription>
+                    Checked in order; the first rule a scan matches decides how it's shown. Scans that match no rule are rejected. Named groups such as <code>{"(?<lot>\\d{6})"}</code> are saved with the scan as fields.
+                  </FormDescription>
+                  <ValidationRulesEditor control={form.control} onBlur={handleBlur} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmationReads"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirmation Reads</FormLabel>
                   <FormControl>
-                    <Input {...field} onBlur={handleBlur} />
+                    <Input type="number" min={1} max={10} {...field} onBlur={handleBlur} />
                   </FormControl>
+                  <FormDescription>
+                    Number of identical reads in a row required before a scan is saved
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="formats"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcode Formats</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {SUPPORTED_FORMATS.map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-2 text-sm">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value.includes(key)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, key]
+                                  : field.value.filter((value) => value !== key)
+                              )
+                            }
+                          />
+                        </FormControl>
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cropToScanArea"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                  <div className="space-y-0.5">
+                    <FormLabel>Decode Inside Scan Frame Only</FormLabel>
+                    <FormDescription>
+                      Ignore barcodes outside the green frame
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="decoderBackend"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Decoder</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DECODER_BACKEND_KEYS.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {DECODER_BACKENDS[key]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    The native decoder is faster but only available in some browsers
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="collectSegments"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                  <div className="space-y-0.5">
+                    <FormLabel>Collect Multi-Symbol Segments</FormLabel>
+                    <FormDescription>
+                      Join documents printed over several Macro PDF417 or structured-append QR
+                      codes. Auto then decodes with ZXing, since the native decoder can't tell the
+                      segments apart.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="preferredResolution"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preferred Camera Resolution</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RESOLUTION_KEYS.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {RESOLUTIONS[key].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Higher resolutions help with small barcodes if the camera supports them
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -164,6 +423,210 @@ export function ScannerSettings({ settings, onSettingsChange }: ScannerSettingsP
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="snapshotQuality"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Snapshot Quality</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SNAPSHOT_QUALITY_KEYS.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {SNAPSHOT_QUALITIES[key].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="snapshotLimit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Snapshots to Keep</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} max={200} {...field} onBlur={handleBlur} />
+                  </FormControl>
+                  <FormDescription>
+                    Images of the most recent camera scans kept with the history. Set to 0 to turn snapshots off.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Accordion type="single" collapsible>
+              <AccordionItem value="advanced-decoding">
+                <AccordionTrigger>Advanced Decoding</AccordionTrigger>
+                <AccordionContent className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="preprocessingSteps"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Pre-processing</FormLabel>
+                        <FormDescription>
+                          Retried in this order when a frame doesn't decode as-is. Uses the ZXing decoder.
+                        </FormDescription>
+                        <div className="grid grid-cols-2 gap-2">
+                          {PREPROCESSING_STEP_KEYS.map((key) => (
+                            <label key={key} className="flex items-center gap-2 text-sm">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value.includes(key)}
+                                  onCheckedChange={(checked) =>
+                                    field.onChange(
+                                      checked
+                                        ? [...field.value, key]
+                                        : field.value.filter((value) => value !== key)
+                                    )
+                                  }
+                                />
+                              </FormControl>
+                              {PREPROCESSING_STEPS[key]}
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="rotationAngles"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Retry Rotations</FormLabel>
+                        <div className="flex gap-4">
+                          {ROTATION_ANGLES.map((angle) => (
+                            <label key={angle} className="flex items-center gap-2 text-sm">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value.includes(angle)}
+                                  onCheckedChange={(checked) =>
+                                    field.onChange(
+                                      checked
+                                        ? [...field.value, angle].sort((a, b) => a - b)
+                                        : field.value.filter((value) => value !== angle)
+                                    )
+                                  }
+                                />
+                              </FormControl>
+                              {angle}°
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="characterSetHint"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Character Set</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CHARACTER_SET_HINT_KEYS.map((key) => (
+                              <SelectItem key={key} value={key}>
+                                {CHARACTER_SET_HINTS[key]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          How binary data is turned into text when the barcode doesn't say. Uses the ZXing decoder.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </AccordionContent>
+              </AccordionItem>
+              <AccordionItem value="keyboard-scanner">
+                <AccordionTrigger>Handheld Scanner</AccordionTrigger>
+                <AccordionContent className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="keyboardWedge"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                        <div className="space-y-0.5">
+                          <FormLabel>Keyboard Scanner Input</FormLabel>
+                          <FormDescription>
+                            Accept reads from USB or Bluetooth scanners that type the barcode and press Enter
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="wedgeMaxKeyInterval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Time Between Keys (ms)</FormLabel>
+                        <FormControl>
+                          <Input type="number" {...field} onBlur={handleBlur} />
+                        </FormControl>
+                        <FormDescription>
+                          Slower keystrokes are treated as someone typing
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="wedgePrefix"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Strip Prefix</FormLabel>
+                          <FormControl>
+                            <Input {...field} onBlur={handleBlur} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="wedgeSuffix"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Strip Suffix</FormLabel>
+                          <FormControl>
+                            <Input {...field} onBlur={handleBlur} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
             <div className="flex flex-row justify-center items-center gap-2 mt-6">
               <Button 
                 type="button" 
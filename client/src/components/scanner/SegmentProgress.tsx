@@ -0,0 +1,66 @@
+import { Layers, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { formatLabel } from "@/lib/barcode-formats";
+import type { SegmentProgress as SegmentProgressState } from "@/lib/segments";
+
+interface SegmentProgressProps {
+  groups: SegmentProgressState[];
+  onDiscard: (key: string) => void;
+}
+
+// Up to this many segments, each one gets its own box
+const MAX_SEGMENT_BOXES = 16;
+
+// Segment numbers are shown one-based, as printed on multi-part labels
+const formatMissing = (missing: number[]) => missing.map((index) => index + 1).join(", ");
+
+export function SegmentProgress({ groups, onDiscard }: SegmentProgressProps) {
+  if (!groups.length) {
+    return null;
+  }
+
+  return (
+    <div className="px-4 pb-2.5 space-y-2">
+      {groups.map((group) => (
+        <div key={group.key} className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Layers className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1 font-medium">
+              {formatLabel(group.format)}:{" "}
+              {group.count !== null
+                ? `${group.captured} of ${group.count} segments captured`
+                : `${group.captured} segment${group.captured === 1 ? "" : "s"} captured`}
+            </span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onDiscard(group.key)}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Discard segments</span>
+            </Button>
+          </div>
+          {group.count !== null && group.count <= MAX_SEGMENT_BOXES ? (
+            <div className="flex gap-1">
+              {Array.from({ length: group.count }, (_, index) => {
+                const missing = group.missing.includes(index);
+                return (
+                  <div
+                    key={index}
+                    className={`flex h-6 flex-1 items-center justify-center rounded text-xs ${missing ? "border border-dashed text-muted-foreground" : "bg-primary text-primary-foreground"}`}
+                  >
+                    {index + 1}
+                  </div>
+                );
+              })}
+            </div>
+          ) : group.count !== null && (
+            <Progress value={(group.captured / group.count) * 100} className="h-2" />
+          )}
+          <div className="text-xs text-muted-foreground">
+            {group.count !== null
+              ? `Missing ${formatMissing(group.missing)}`
+              : "Total not known yet; keep scanning until the last segment is read"}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useFieldArray, useWatch, type Control } from "react-hook-form";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  CHARACTER_SETS,
+  CHARACTER_SET_KEYS,
+  RULE_COLORS,
+  RULE_COLOR_KEYS,
+  RULE_OUTCOMES,
+  RULE_OUTCOME_KEYS,
+  createRule,
+} from "@/lib/validation-rules";
+import { CHECK_DIGIT_ALGORITHMS, CHECK_DIGIT_ALGORITHM_KEYS } from "@/lib/check-digits";
+import type { ScannerSettings } from "./ScannerSettings";
+
+interface ValidationRulesEditorProps {
+  control: Control<ScannerSettings>;
+  onBlur?: () => void;
+}
+
+export function ValidationRulesEditor({ control, onBlur }: ValidationRulesEditorProps) {
+  const { fields, append, remove, move } = useFieldArray({
+    control,
+    name: "validationRules",
+    // Rules already have an id of their own
+    keyName: "key",
+  });
+  const rules = useWatch({ control, name: "validationRules" });
+
+  return (
+    <div className="space-y-3">
+      {fields.map((rule, index) => (
+        <div key={rule.key} className="rounded-lg border p-3 space-y-3">
+          <div className="flex items-start gap-2">
+            <FormField
+              control={control}
+              name={`validationRules.${index}.name`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Rule {index + 1}</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Name" {...field} onBlur={onBlur} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex pt-8">
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, index - 1)}>
+                <ArrowUp className="h-4 w-4" />
+                <span className="sr-only">Move up</span>
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === fields.length - 1} onClick={() => move(index, index + 1)}>
+                <ArrowDown className="h-4 w-4" />
+                <span className="sr-only">Move down</span>
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => remove(index)}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove rule</span>
+              </Button>
+            </div>
+          </div>
+          <FormField
+            control={control}
+            name={`validationRules.${index}.label`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input placeholder="Label shown with matching scans" {...field} onBlur={onBlur} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`validationRules.${index}.pattern`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input placeholder="Regex (empty matches anything)" className="font-mono" {...field} onBlur={onBlur} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={control}
+              name={`validationRules.${index}.minLength`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input type="number" min={0} placeholder="Min length" {...field} value={field.value ?? ""} onBlur={onBlur} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`validationRules.${index}.maxLength`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input type="number" min={0} placeholder="Max length" {...field} value={field.value ?? ""} onBlur={onBlur} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={control}
+            name={`validationRules.${index}.characterSet`}
+            render={({ field }) => (
+              <FormItem>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CHARACTER_SET_KEYS.map((key) => (
+                      <SelectItem key={key} value={key}>
+                        Characters: {CHARACTER_SETS[key].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`validationRules.${index}.checkDigit`}
+            render={({ field }) => (
+              <FormItem>
+                <Select value={field.value ?? "none"} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">No check digit</SelectItem>
+                    {CHECK_DIGIT_ALGORITHM_KEYS.map((key) => (
+                      <SelectItem key={key} value={key}>
+                        Check digit: {CHECK_DIGIT_ALGORITHMS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          {rules?.[index]?.checkDigit && rules[index].checkDigit !== "none" && (
+            <div className="grid grid-cols-2 gap-2">
+              <FormField
+                control={control}
+                name={`validationRules.${index}.checkDigitStart`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="number" min={1} placeholder="From position (1)" {...field} value={field.value ?? ""} onBlur={onBlur} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`validationRules.${index}.checkDigitEnd`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="number" min={1} placeholder="To position (end)" {...field} value={field.value ?? ""} onBlur={onBlur} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={control}
+              name={`validationRules.${index}.outcome`}
+              render={({ field }) => (
+                <FormItem>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RULE_OUTCOME_KEYS.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {RULE_OUTCOMES[key]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`validationRules.${index}.color`}
+              render={({ field }) => (
+                <FormItem>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RULE_COLOR_KEYS.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          <span className="flex items-center gap-2">
+                            <span className={`h-3 w-3 rounded-full ${RULE_COLORS[key].badge}`} />
+                            {RULE_COLORS[key].label}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append(createRule())}>
+        <Plus className="mr-2 h-4 w-4" /> Add rule
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_SETTINGS, type ScannerSettings } from "@/components/scanner/ScannerSettings";
+import { rulesFromPattern } from "@/lib/validation-rules";
+
+const SETTINGS_STORAGE_KEY = 'scannerSettings';
+
+function loadSettings(): ScannerSettings {
+  try {
+    const storedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!storedSettings) {
+      return DEFAULT_SETTINGS;
+    }
+    const { dataPattern, ...parsed } = JSON.parse(storedSettings);
+    // Older versions had a single data pattern instead of validation rules
+    if (dataPattern && !parsed.validationRules) {
+      parsed.validationRules = rulesFromPattern(dataPattern);
+    }
+    // Merge over defaults so settings saved by older versions pick up new fields
+    return { ...DEFAULT_SETTINGS, ...parsed };
+  } catch (error) {
+    console.error('Error loading settings from localStorage:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function useScannerSettings() {
+  const [settings, setSettings] = useState<ScannerSettings>(loadSettings);
+
+  // Save settings to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving settings to localStorage:', error);
+    }
+  }, [settings]);
+
+  return [settings, setSettings] as const;
+}
@@ -0,0 +1,200 @@
+// Parser for the AAMVA DL/ID card design standard, the PDF417 payload on the
+// back of US and Canadian driver's licenses and ID cards (versions 1–10).
+//
+// A payload starts with a fixed header ("@", LF, RS, CR, "ANSI " and the
+// issuer, version and subfile counts), followed by a directory of subfiles
+// and then the subfiles themselves. Each subfile is a two-letter type ("DL",
+// "ID", or "Z?" for jurisdiction-specific data) followed by LF-separated
+// elements made of a three-letter element ID and its value.
+
+export type AamvaSex = "male" | "female" | "unspecified";
+
+export interface AamvaSubfile {
+  type: string;
+  elements: Record<string, string>;
+}
+
+export interface AamvaAddress {
+  street: string | null;
+  street2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  country: string | null;
+}
+
+export interface AamvaLicense {
+  version: number;
+  jurisdictionVersion: number | null;
+  // Issuer Identification Number assigned to the jurisdiction
+  issuerId: string;
+  documentType: "DL" | "ID";
+  firstName: string | null;
+  middleName: string | null;
+  lastName: string | null;
+  dateOfBirth: Date | null;
+  issueDate: Date | null;
+  expirationDate: Date | null;
+  address: AamvaAddress;
+  licenseNumber: string | null;
+  licenseClass: string | null;
+  sex: AamvaSex | null;
+  subfiles: AamvaSubfile[];
+}
+
+const HEADER_PATTERN = /^@[\n\x1e\r\s]*(ANSI |AAMVA)(\d{6})(\d{2})/;
+
+const MAX_VERSION = 10;
+
+export function isAamva(content: string) {
+  return HEADER_PATTERN.test(content);
+}
+
+// Version 1 and Canadian cards use CCYYMMDD, later US cards use MMDDCCYY
+function parseDate(value: string | undefined, yearFirst: boolean): Date | null {
+  if (!value || !/^\d{8}$/.test(value)) {
+    return null;
+  }
+  const [year, month, day] = yearFirst
+    ? [value.slice(0, 4), value.slice(4, 6), value.slice(6, 8)]
+    : [value.slice(4, 8), value.slice(0, 2), value.slice(2, 4)];
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  return date.getMonth() === Number(month) - 1 ? date : null;
+}
+
+function parseSex(value: string | undefined): AamvaSex | null {
+  switch (value?.toUpperCase()) {
+    case "1":
+    case "M":
+      return "male";
+    case "2":
+    case "F":
+      return "female";
+    case "9":
+      return "unspecified";
+    default:
+      return null;
+  }
+}
+
+// US ZIP codes are stored as nine digits, padded with zeros when there's no +4
+function formatPostalCode(value: string | undefined) {
+  if (!value) return null;
+  const postalCode = value.trim();
+  const zip = /^(\d{5})(\d{4})?$/.exec(postalCode);
+  if (zip) {
+    return zip[2] && zip[2] !== "0000" ? `${zip[1]}-${zip[2]}` : zip[1];
+  }
+  return postalCode;
+}
+
+function parseElements(body: string): Record<string, string> {
+  const elements: Record<string, string> = {};
+  const lines = body.split(/[\n\r]+/);
+  for (let i = 0; i < lines.length; i++) {
+    const element = /^([A-Z]{3})(.*)$/.exec(lines[i].trim());
+    // The first occurrence wins; some issuers repeat elements in their own subfile
+    if (element && !(element[1] in elements)) {
+      elements[element[1]] = element[2].trim();
+    }
+  }
+  return elements;
+}
+
+/**
+ * Splits the subfiles out using the directory in the header. Plenty of cards
+ * in circulation have offsets that are off by a few bytes, so when a subfile
+ * isn't where the directory says, it's looked up by its type instead.
+ */
+function readSubfiles(content: string, directoryStart: number, entries: number): AamvaSubfile[] {
+  const designators: { type: string; offset: number; length: number }[] = [];
+  for (let i = 0; i < entries; i++) {
+    const designator = /^([A-Z]{2})(\d{4})(\d{4})/.exec(content.slice(directoryStart + i * 10));
+    if (!designator) break;
+    designators.push({ type: designator[1], offset: Number(designator[2]), length: Number(designator[3]) });
+  }
+
+  const directoryEnd = directoryStart + designators.length * 10;
+  return designators.map(({ type, offset, length }) => {
+    let start = content.slice(offset, offset + 2) === type ? offset : content.indexOf(type, directoryEnd);
+    if (start === -1) {
+      start = directoryEnd;
+    }
+    const end = content.indexOf("\r", start);
+    const body = content.slice(start + 2, end === -1 ? start + length : end);
+    return { type, elements: parseElements(body) };
+  });
+}
+
+export function parseAamva(content: string): AamvaLicense | null {
+  const header = HEADER_PATTERN.exec(content);
+  if (!header) {
+    return null;
+  }
+
+  const version = Number(header[3]);
+  let position = header[0].length;
+  let jurisdictionVersion: number | null = null;
+  // Version 1 headers have no jurisdiction version field
+  if (version >= 2) {
+    jurisdictionVersion = Number(content.slice(position, position + 2));
+    position += 2;
+  }
+  const entries = Number(content.slice(position, position + 2));
+  position += 2;
+  if (version < 1 || version > MAX_VERSION || !Number.isFinite(entries)) {
+    return null;
+  }
+
+  const subfiles = readSubfiles(content, position, entries);
+  const document = subfiles.find((subfile) => subfile.type === "DL" || subfile.type === "ID");
+  if (!document) {
+    return null;
+  }
+  const fields = document.elements;
+  const country = fields.DCG || null;
+  const yearFirstDates = version === 1 || country === "CAN";
+
+  // Version 1 has a single full-name field, LAST,FIRST,MIDDLE; versions 2 and
+  // 3 combine the first and middle names in DCT
+  const fullName = (fields.DAA ?? "").split(/[,$]/).map((part) => part.trim());
+  const givenNames = (fields.DCT ?? "").split(/[,$ ]/).filter(Boolean);
+  const lastName = fields.DCS || fields.DAB || fullName[0] || null;
+  const firstName = fields.DAC || givenNames[0] || fullName[1] || null;
+  const middleName = fields.DAD || givenNames.slice(1).join(" ") || fullName[2] || null;
+
+  return {
+    version,
+    jurisdictionVersion,
+    issuerId: header[2],
+    documentType: document.type as "DL" | "ID",
+    firstName,
+    middleName,
+    lastName,
+    dateOfBirth: parseDate(fields.DBB, yearFirstDates),
+    issueDate: parseDate(fields.DBD, yearFirstDates),
+    expirationDate: parseDate(fields.DBA, yearFirstDates),
+    address: {
+      street: fields.DAG || null,
+      street2: fields.DAH || null,
+      city: fields.DAI || null,
+      state: fields.DAJ || null,
+      postalCode: formatPostalCode(fields.DAK),
+      country,
+    },
+    licenseNumber: fields.DAQ || null,
+    licenseClass: fields.DCA || fields.DAR || null,
+    sex: parseSex(fields.DBC),
+    subfiles,
+  };
+}
+
+// A card is valid through the whole of its expiration day
+export function isLicenseExpired(license: AamvaLicense, now = new Date()) {
+  if (!license.expirationDate) {
+    return false;
+  }
+  const endOfDay = new Date(license.expirationDate);
+  endOfDay.setDate(endOfDay.getDate() + 1);
+  return now >= endOfDay;
+}
@@ -0,0 +1,55 @@
+import { BarcodeFormat, DecodeHintType } from "@zxing/library";
+
+// Symbologies that can be enabled from the scanner settings. The key is the
+// ZXing enum name, which is what gets persisted in settings and on each scan.
+export const SUPPORTED_FORMATS = [
+  { key: "PDF_417", label: "PDF417", format: BarcodeFormat.PDF_417 },
+  { key: "QR_CODE", label: "QR Code", format: BarcodeFormat.QR_CODE },
+  { key: "DATA_MATRIX", label: "Data Matrix", format: BarcodeFormat.DATA_MATRIX },
+  { key: "AZTEC", label: "Aztec", format: BarcodeFormat.AZTEC },
+  { key: "CODE_128", label: "Code 128", format: BarcodeFormat.CODE_128 },
+  { key: "EAN_13", label: "EAN-13", format: BarcodeFormat.EAN_13 },
+  { key: "EAN_8", label: "EAN-8", format: BarcodeFormat.EAN_8 },
+] as const;
+
+export type FormatKey = (typeof SUPPORTED_FORMATS)[number]["key"];
+
+export const DEFAULT_FORMATS: FormatKey[] = ["PDF_417"];
+
+// tryHarder trades speed for accuracy, which suits still images better than
+// live video frames. characterSet is the encoding assumed for byte-mode data
+// that doesn't declare one; "auto" leaves the guess to ZXing.
+export function buildDecodeHints(formats: string[], tryHarder = false, characterSet = "auto") {
+  const possibleFormats = SUPPORTED_FORMATS
+    .filter(({ key }) => formats.includes(key))
+    .map(({ format }) => format);
+
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(
+    DecodeHintType.POSSIBLE_FORMATS,
+    possibleFormats.length ? possibleFormats : [BarcodeFormat.PDF_417]
+  );
+  if (tryHarder) {
+    hints.set(DecodeHintType.TRY_HARDER, true);
+  }
+  // Without this, Code 128 drops FNC1, so GS1-128 data loses its "]C1"
+  // prefix and the separators after variable-length AIs. Plain Code 128
+  // rarely uses FNC1, so other labels read the same.
+  if (formats.includes("CODE_128")) {
+    hints.set(DecodeHintType.ASSUME_GS1, true);
+  }
+  if (characterSet !== "auto") {
+    hints.set(DecodeHintType.CHARACTER_SET, characterSet);
+  }
+  return hints;
+}
+
+export function formatKey(format: BarcodeFormat): string {
+  return BarcodeFormat[format] ?? "UNKNOWN";
+}
+
+// Older scans were stored as "PDF417" before the format was read from the
+// result, so fall back to the raw value when it isn't a known key.
+export function formatLabel(key: string): string {
+  return SUPPORTED_FORMATS.find((f) => f.key === key)?.label ?? key;
+}
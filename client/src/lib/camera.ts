@@ -0,0 +1,137 @@
+// Helpers for choosing a camera and driving the optional track controls
+// (torch, zoom, focus mode) that only some devices expose.
+
+export const RESOLUTIONS = {
+  auto: { label: "Auto", width: undefined, height: undefined },
+  "720p": { label: "1280 × 720", width: 1280, height: 720 },
+  "1080p": { label: "1920 × 1080", width: 1920, height: 1080 },
+  "1440p": { label: "2560 × 1440", width: 2560, height: 1440 },
+  "2160p": { label: "3840 × 2160", width: 3840, height: 2160 },
+} as const;
+
+export type ResolutionKey = keyof typeof RESOLUTIONS;
+
+export const RESOLUTION_KEYS = Object.keys(RESOLUTIONS) as [ResolutionKey, ...ResolutionKey[]];
+
+const DEVICE_STORAGE_KEY = "cameraDeviceId";
+
+// Torch, zoom and focusMode are part of the Image Capture spec and aren't in
+// the DOM lib typings yet.
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+  focusMode?: string[];
+};
+
+type ExtendedSettings = MediaTrackSettings & {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+};
+
+export type ExtendedConstraintSet = MediaTrackConstraintSet & {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+};
+
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: { min: number; max: number; step: number } | null;
+  focusModes: string[];
+}
+
+export interface CameraTrackState {
+  torch: boolean;
+  zoom: number | null;
+  focusMode: string | null;
+}
+
+export function loadPreferredDeviceId(): string | null {
+  try {
+    return localStorage.getItem(DEVICE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePreferredDeviceId(deviceId: string | null) {
+  try {
+    if (deviceId) {
+      localStorage.setItem(DEVICE_STORAGE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(DEVICE_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving camera device to localStorage:", error);
+  }
+}
+
+export function getResolutionConstraints(resolution: ResolutionKey): MediaTrackConstraints {
+  const { width, height } = RESOLUTIONS[resolution];
+  return width && height ? { width: { ideal: width }, height: { ideal: height } } : {};
+}
+
+export function buildVideoConstraints(deviceId: string | null, resolution: ResolutionKey): MediaTrackConstraints {
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: "environment" }),
+    ...getResolutionConstraints(resolution),
+  };
+}
+
+export async function listVideoDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "videoinput");
+}
+
+export function getCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  // Firefox doesn't implement getCapabilities at all
+  const capabilities: ExtendedCapabilities = track.getCapabilities?.() ?? {};
+  return {
+    torch: capabilities.torch === true,
+    zoom: capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min
+      ? { min: capabilities.zoom.min, max: capabilities.zoom.max, step: capabilities.zoom.step || 0.1 }
+      : null,
+    focusModes: capabilities.focusMode ?? [],
+  };
+}
+
+export function getCameraTrackState(track: MediaStreamTrack): CameraTrackState {
+  const settings: ExtendedSettings = track.getSettings();
+  return {
+    torch: settings.torch === true,
+    zoom: settings.zoom ?? null,
+    focusMode: settings.focusMode ?? null,
+  };
+}
+
+/**
+ * Applies a single constraint to the track. Returns false instead of throwing
+ * when the browser or camera rejects it, so callers can leave the control in
+ * its previous state.
+ */
+export async function applyTrackConstraint(
+  track: MediaStreamTrack,
+  constraint: ExtendedConstraintSet
+): Promise<boolean> {
+  try {
+    await track.applyConstraints({ advanced: [constraint] });
+    return true;
+  } catch (error) {
+    console.warn("Camera constraint not supported:", constraint, error);
+    return false;
+  }
+}
+
+export async function applyResolution(track: MediaStreamTrack, resolution: ResolutionKey): Promise<boolean> {
+  try {
+    await track.applyConstraints(getResolutionConstraints(resolution));
+    return true;
+  } catch (error) {
+    console.warn("Camera resolution not supported:", resolution, error);
+    return false;
+  }
+}
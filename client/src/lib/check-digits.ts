@@ -0,0 +1,96 @@
+// Check-digit algorithms for catching mistyped or misread data that still
+// fits the expected pattern, such as a transposed pair of digits.
+
+export const CHECK_DIGIT_ALGORITHMS = {
+  luhn: "Luhn (mod 10)",
+  gs1: "GS1 mod 10 (UPC/EAN/GTIN)",
+  mod11: "Mod 11 (ISBN-10 style)",
+  mod43: "Mod 43 (Code 39)",
+  iso7064Mod37_36: "ISO 7064 MOD 37,36",
+} as const;
+
+export type CheckDigitAlgorithm = keyof typeof CHECK_DIGIT_ALGORITHMS;
+
+export const CHECK_DIGIT_ALGORITHM_KEYS = Object.keys(CHECK_DIGIT_ALGORITHMS) as [CheckDigitAlgorithm, ...CheckDigitAlgorithm[]];
+
+const MOD43_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%";
+const ALPHANUMERIC = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+const toDigits = (payload: string) => (/^\d+$/.test(payload) ? payload.split("").map(Number) : null);
+
+function luhn(payload: string) {
+  const digits = toDigits(payload);
+  if (!digits) return null;
+  let sum = 0;
+  // Every second digit is doubled, starting with the one next to the check digit
+  for (let i = digits.length - 1, double = true; i >= 0; i--, double = !double) {
+    const value = double ? digits[i] * 2 : digits[i];
+    sum += value > 9 ? value - 9 : value;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+function gs1(payload: string) {
+  const digits = toDigits(payload);
+  if (!digits) return null;
+  let sum = 0;
+  // Weights alternate 3, 1, ... from the right
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += digits[i] * weight;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+function mod11(payload: string) {
+  const digits = toDigits(payload);
+  if (!digits) return null;
+  let sum = 0;
+  // Weights 2, 3, 4, ... from the right; a check value of 10 is written as X
+  for (let i = digits.length - 1, weight = 2; i >= 0; i--, weight++) {
+    sum += digits[i] * weight;
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : String(check);
+}
+
+function mod43(payload: string) {
+  let sum = 0;
+  for (let i = 0; i < payload.length; i++) {
+    const value = MOD43_CHARSET.indexOf(payload[i]);
+    if (value === -1) return null;
+    sum += value;
+  }
+  return MOD43_CHARSET[sum % 43];
+}
+
+// The hybrid system for alphanumeric data, with M = 36
+function iso7064Mod37_36(payload: string) {
+  let product = 36;
+  for (let i = 0; i < payload.length; i++) {
+    const value = ALPHANUMERIC.indexOf(payload[i].toUpperCase());
+    if (value === -1) return null;
+    const sum = (product + value) % 36 || 36;
+    product = (sum * 2) % 37;
+  }
+  return ALPHANUMERIC[(37 - product) % 36];
+}
+
+const ALGORITHMS: Record<CheckDigitAlgorithm, (payload: string) => string | null> = {
+  luhn,
+  gs1,
+  mod11,
+  mod43,
+  iso7064Mod37_36,
+};
+
+// Returns null when the payload has characters the algorithm can't handle
+export function computeCheckDigit(payload: string, algorithm: CheckDigitAlgorithm): string | null {
+  return payload ? ALGORITHMS[algorithm](payload) : null;
+}
+
+// Treats the last character of `value` as the check digit for the rest
+export function verifyCheckDigit(value: string, algorithm: CheckDigitAlgorithm): boolean {
+  if (value.length < 2) return false;
+  const expected = computeCheckDigit(value.slice(0, -1), algorithm);
+  return expected !== null && expected === value.slice(-1).toUpperCase();
+}
@@ -0,0 +1,27 @@
+// Reads of the same text must all land within this window to confirm a scan
+export const CONFIRMATION_WINDOW_MS = 2000;
+
+export interface PendingConfirmation {
+  text: string;
+  count: number;
+  firstSeenAt: number;
+}
+
+/**
+ * Records one decoded read. A read with different text, or one that arrives
+ * after the window has run out, starts a new confirmation.
+ */
+export function recordRead(
+  pending: PendingConfirmation | null,
+  text: string,
+  now: number
+): PendingConfirmation {
+  if (!pending || pending.text !== text || isExpired(pending, now)) {
+    return { text, count: 1, firstSeenAt: now };
+  }
+  return { ...pending, count: pending.count + 1 };
+}
+
+export function isExpired(pending: PendingConfirmation, now: number) {
+  return now - pending.firstSeenAt > CONFIRMATION_WINDOW_MS;
+}
@@ -0,0 +1,58 @@
+// Messages exchanged with the ZXing decoder worker, and the normalized
+// result every decoder backend returns.
+
+import type { PreprocessingOptions } from "@/lib/preprocessing";
+import type { CharacterSetHint } from "@/lib/encoding";
+
+export interface DecodedPoint {
+  x: number;
+  y: number;
+}
+
+// Position of a symbol within data split over several symbols
+export interface DecodedSegment {
+  // Shared by every symbol of the same split data, e.g. the Macro PDF417 file ID
+  groupId: string;
+  // Zero-based
+  index: number;
+  // Not every symbol carries the count; the last one is always marked
+  count: number | null;
+  last: boolean;
+  // QR structured append: XOR of every byte of the complete data
+  parity?: number;
+}
+
+export interface DecodedBarcode {
+  text: string;
+  // ZXing format key, e.g. "PDF_417"
+  format: string;
+  // Corners or finder points of the symbol, in full video frame coordinates
+  cornerPoints: DecodedPoint[];
+  // The payload bytes behind the text; not every backend exposes them
+  rawBytes: Uint8Array | null;
+  // Which pre-processing pass produced the read; "original" for a plain decode
+  decodeStep?: string;
+  segment?: DecodedSegment;
+}
+
+export type DecoderRequest =
+  | {
+      type: "configure";
+      formats: string[];
+      tryHarder?: boolean;
+      preprocessing?: PreprocessingOptions;
+      characterSet?: CharacterSetHint;
+    }
+  // origin is where the bitmap sits in the full video frame when it has been
+  // cropped, so result points can be reported in video coordinates
+  | { type: "decode"; id: number; bitmap: ImageBitmap; origin?: DecodedPoint };
+
+export type DecoderResponse =
+  | { type: "result"; id: number; result: DecodedBarcode | null }
+  | { type: "error"; id: number; message: string };
+
+export function createDecoderWorker() {
+  return new Worker(new URL("../workers/decoder.worker.ts", import.meta.url), {
+    type: "module",
+  });
+}
@@ -0,0 +1,135 @@
+import type { DecodedBarcode, DecodedPoint } from "@/lib/decoder-protocol";
+import { createZxingDecoder } from "@/lib/zxing-decoder";
+import { createNativeDecoder, isNativeDecoderSupported } from "@/lib/native-decoder";
+import { hasPreprocessing, type PreprocessingOptions } from "@/lib/preprocessing";
+import type { CharacterSetHint } from "@/lib/encoding";
+
+export type { DecodedBarcode, DecodedPoint } from "@/lib/decoder-protocol";
+
+export const DECODER_BACKENDS = {
+  auto: "Auto (native with ZXing fallback)",
+  zxing: "ZXing",
+  native: "Native BarcodeDetector",
+} as const;
+
+export type DecoderBackend = keyof typeof DECODER_BACKENDS;
+
+export const DECODER_BACKEND_KEYS = Object.keys(DECODER_BACKENDS) as [DecoderBackend, ...DecoderBackend[]];
+
+export interface DecoderOptions {
+  formats: string[];
+  tryHarder?: boolean;
+  // Only the ZXing backend can pre-process frames or take a character set hint
+  preprocessing?: PreprocessingOptions;
+  characterSet?: CharacterSetHint;
+  // Only ZXing reports the Macro PDF417 and structured-append QR metadata
+  // that segments are joined by
+  collectSegments?: boolean;
+}
+
+/**
+ * Common interface for the decoding backends. decode() takes ownership of
+ * the bitmap and closes it once it has been read; origin is where the bitmap
+ * sits in the full video frame when it has been cropped.
+ */
+export interface BarcodeDecoder {
+  readonly backend: Exclude<DecoderBackend, "auto">;
+  // Set once the decoder has stopped working for good and has to be replaced
+  readonly error: Error | null;
+  configure(options: DecoderOptions): void;
+  decode(bitmap: ImageBitmap, origin?: DecodedPoint): Promise<DecodedBarcode | null>;
+  dispose(): void;
+}
+
+// Options the native detector can't honour
+function requiresZxing(options: DecoderOptions) {
+  return (
+    hasPreprocessing(options.preprocessing) ||
+    (options.characterSet ?? "auto") !== "auto" ||
+    !!options.collectSegments
+  );
+}
+
+// Prefers the native detector when it can read every selected format and
+// nothing ZXing-only is configured, and drops back to ZXing for good if it
+// ever fails.
+function createAutoDecoder(): BarcodeDecoder {
+  const zxing = createZxingDecoder();
+  let native: BarcodeDecoder | null = null;
+  let active: BarcodeDecoder = zxing;
+  let configureId = 0;
+
+  return {
+    get backend() {
+      return active.backend;
+    },
+
+    get error() {
+      return active.error;
+    },
+
+    configure(options: DecoderOptions) {
+      zxing.configure(options);
+      const id = ++configureId;
+      if (requiresZxing(options)) {
+        active = zxing;
+        return;
+      }
+      isNativeDecoderSupported(options.formats).then((supported) => {
+        // A newer configure call has superseded this check
+        if (id !== configureId) return;
+        if (supported) {
+          native = native ?? createNativeDecoder();
+          native.configure(options);
+          active = native;
+        } else {
+          active = zxing;
+        }
+      }).catch(console.error);
+    },
+
+    async decode(bitmap: ImageBitmap, origin?: DecodedPoint) {
+      if (active === zxing) {
+        return zxing.decode(bitmap, origin);
+      }
+      try {
+        return await active.decode(bitmap, origin);
+      } catch (err) {
+        console.warn("Native barcode detection failed, falling back to ZXing:", err);
+        active = zxing;
+        return null;
+      }
+    },
+
+    dispose() {
+      zxing.dispose();
+      native?.dispose();
+    },
+  };
+}
+
+export function getDecoderOptions(settings: {
+  formats: string[];
+  preprocessingSteps: PreprocessingOptions["steps"];
+  rotationAngles: number[];
+  characterSetHint: CharacterSetHint;
+  collectSegments: boolean;
+}): DecoderOptions {
+  return {
+    formats: settings.formats,
+    preprocessing: { steps: settings.preprocessingSteps, rotations: settings.rotationAngles },
+    characterSet: settings.characterSetHint,
+    collectSegments: settings.collectSegments,
+  };
+}
+
+export function createDecoder(backend: DecoderBackend): BarcodeDecoder {
+  switch (backend) {
+    case "zxing":
+      return createZxingDecoder();
+    case "native":
+      return createNativeDecoder();
+    default:
+      return createAutoDecoder();
+  }
+}
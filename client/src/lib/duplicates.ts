@@ -0,0 +1,38 @@
+import type { Scan } from "@shared/schema";
+
+export const DUPLICATE_POLICIES = {
+  time: "Cooldown only",
+  window: "Ignore same content for a time window",
+  session: "Unique per session",
+} as const;
+
+export type DuplicatePolicy = keyof typeof DUPLICATE_POLICIES;
+
+export const DUPLICATE_POLICY_KEYS = Object.keys(DUPLICATE_POLICIES) as [DuplicatePolicy, ...DuplicatePolicy[]];
+
+interface DuplicateCheck {
+  policy: DuplicatePolicy;
+  windowMinutes: number;
+  // Contents saved since the scanner was opened
+  sessionContents: Set<string>;
+  // Most recent saved scan with the same content, if any
+  previousScan: Scan | undefined;
+  now: number;
+}
+
+/**
+ * Decides whether a read should be suppressed as a duplicate instead of
+ * being saved as a new scan. The time-only policy never flags duplicates;
+ * it relies on the global cooldown alone.
+ */
+export function isDuplicate(content: string, check: DuplicateCheck): boolean {
+  switch (check.policy) {
+    case "window":
+      return !!check.previousScan &&
+        check.now - new Date(check.previousScan.timestamp).getTime() < check.windowMinutes * 60_000;
+    case "session":
+      return check.sessionContents.has(content);
+    default:
+      return false;
+  }
+}
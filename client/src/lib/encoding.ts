@@ -0,0 +1,161 @@
+// Helpers for binary payloads: recovering the bytes behind decoded text,
+// storing them, dumping them as hex, and spotting text that was decoded
+// with the wrong character set.
+
+export const CHARACTER_SET_HINTS = {
+  auto: "Auto-detect",
+  "UTF-8": "UTF-8",
+  "ISO-8859-1": "Latin-1 (ISO-8859-1)",
+  Shift_JIS: "Shift-JIS",
+  GB18030: "Chinese (GB18030)",
+  "EUC-KR": "Korean (EUC-KR)",
+} as const;
+
+export type CharacterSetHint = keyof typeof CHARACTER_SET_HINTS;
+
+export const CHARACTER_SET_HINT_KEYS = Object.keys(CHARACTER_SET_HINTS) as [CharacterSetHint, ...CharacterSetHint[]];
+
+// Browsers decode "ISO-8859-1" as windows-1252, which maps these bytes in
+// the 0x80–0x9F range to other characters
+const WINDOWS_1252_BYTES: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86,
+  0x2021: 0x87, 0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c,
+  0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95,
+  0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+/**
+ * Turns text that was decoded as Latin-1 back into its bytes. Returns null
+ * if the text has characters Latin-1 can't represent, i.e. it was decoded
+ * with some other character set.
+ */
+export function latin1Bytes(text: string): Uint8Array | null {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const byte = code <= 0xff ? code : WINDOWS_1252_BYTES[code];
+    if (byte === undefined) {
+      return null;
+    }
+    bytes[i] = byte;
+  }
+  return bytes;
+}
+
+// Returns null when the bytes aren't valid in the character set
+export function decodeBytes(bytes: Uint8Array, characterSet: string): string | null {
+  try {
+    return new TextDecoder(characterSet, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// Bytes are stored base64-encoded, since scans are kept as JSON
+export function bytesToBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Classic 16-bytes-per-line dump: offset, hex bytes, then printable ASCII
+export function hexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const hex: string[] = [];
+    let ascii = "";
+    for (let i = offset; i < offset + 16; i++) {
+      if (i < bytes.length) {
+        hex.push(bytes[i].toString(16).padStart(2, "0"));
+        ascii += bytes[i] >= 0x20 && bytes[i] < 0x7f ? String.fromCharCode(bytes[i]) : ".";
+      } else {
+        hex.push("  ");
+      }
+    }
+    const columns = `${hex.slice(0, 8).join(" ")}  ${hex.slice(8).join(" ")}`;
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${columns}  |${ascii}|`);
+  }
+  return lines.join("\n");
+}
+
+export interface EncodingIssue {
+  message: string;
+  // Another character set that decodes the bytes cleanly, with the result
+  suggestion?: { characterSet: string; text: string };
+}
+
+// Control characters that legitimately show up in barcode data: tab, line
+// breaks and the FS/GS/RS separators used by GS1 and AAMVA
+const ALLOWED_CONTROL = [0x09, 0x0a, 0x0d, 0x1c, 0x1d, 0x1e];
+
+// UTF-8 multi-byte sequences read as Latin-1 show up as Ã or Â followed by
+// another accented or symbol character
+const UTF8_AS_LATIN1 = /[Â-ô][\u0080-¿]/;
+
+/**
+ * Looks for signs that the text isn't what the symbol's bytes actually say:
+ * replacement characters, stray control codes, or the typical mojibake of
+ * UTF-8 or Shift-JIS read as Latin-1.
+ */
+export function detectEncodingIssues(text: string, bytes: Uint8Array | null): EncodingIssue[] {
+  const issues: EncodingIssue[] = [];
+
+  if (text.includes("�")) {
+    issues.push({ message: "Contains replacement characters (�), so some bytes weren't valid in the character set used" });
+  }
+
+  let controlCount = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if ((code < 0x20 || code === 0x7f) && !ALLOWED_CONTROL.includes(code)) {
+      controlCount++;
+    }
+  }
+  if (controlCount > 0) {
+    issues.push({ message: `Contains ${controlCount} control character${controlCount === 1 ? "" : "s"}; the payload may be binary data` });
+  }
+
+  if (!bytes) {
+    return issues;
+  }
+
+  const hasHighBytes = bytes.some((byte) => byte >= 0x80);
+  if (!hasHighBytes) {
+    return issues;
+  }
+
+  // Only suggest a different reading if it decodes cleanly and differs from what we have
+  const utf8 = decodeBytes(bytes, "utf-8");
+  if (utf8 !== null && utf8 !== text) {
+    issues.push({
+      message: UTF8_AS_LATIN1.test(text)
+        ? "Looks like UTF-8 text that was read as Latin-1"
+        : "The bytes are valid UTF-8 but were decoded differently",
+      suggestion: { characterSet: "UTF-8", text: utf8 },
+    });
+    return issues;
+  }
+
+  const shiftJis = utf8 === null ? decodeBytes(bytes, "shift_jis") : null;
+  // Shift-JIS accepts a lot of byte sequences, so only suggest it when the
+  // result actually contains Japanese characters
+  if (shiftJis !== null && shiftJis !== text && /[぀-ヿ一-龯]/.test(shiftJis)) {
+    issues.push({
+      message: "May be Shift-JIS text that was read with another character set",
+      suggestion: { characterSet: "Shift-JIS", text: shiftJis },
+    });
+  }
+  return issues;
+}
@@ -0,0 +1,278 @@
+import { verifyCheckDigit } from "@/lib/check-digits";
+
+// Parser for GS1 element strings, as carried by GS1-128, GS1 DataMatrix and
+// GS1 QR Code. An element string is a run of Application Identifiers (AIs),
+// each followed by its data. Variable-length data is ended with FNC1, which
+// decoders pass on as the ASCII group separator.
+
+const GROUP_SEPARATOR = "\x1d";
+
+// Symbology identifiers some decoders put in front of GS1 data
+const SYMBOLOGY_PREFIX = /^\](C1|d2|Q3|e0|J1)/;
+
+// AIs starting with these two digits have a predefined length, so they never
+// need a separator after them even when more data follows
+const PREDEFINED_LENGTH_PREFIXES = [
+  "00", "01", "02", "03", "04", "11", "12", "13", "14", "15", "16", "17", "18", "19",
+  "20", "31", "32", "33", "34", "35", "36", "41",
+];
+
+type Gs1ValueType = "numeric" | "alphanumeric" | "date" | "decimal";
+
+interface Gs1Definition {
+  title: string;
+  type: Gs1ValueType;
+  // Exact length for fixed-length AIs, otherwise the maximum length
+  length: number;
+  fixed: boolean;
+  // The last digit is a GS1 mod 10 check digit
+  checkDigit?: boolean;
+}
+
+const fixed = (title: string, length: number, type: Gs1ValueType = "numeric", checkDigit = false): Gs1Definition =>
+  ({ title, type, length, fixed: true, checkDigit });
+const variable = (title: string, length: number, type: Gs1ValueType = "alphanumeric"): Gs1Definition =>
+  ({ title, type, length, fixed: false });
+
+const AI_DEFINITIONS: Record<string, Gs1Definition> = {
+  "00": fixed("SSCC", 18, "numeric", true),
+  "01": fixed("GTIN", 14, "numeric", true),
+  "02": fixed("Content GTIN", 14, "numeric", true),
+  "10": variable("Batch/lot", 20),
+  "11": fixed("Production date", 6, "date"),
+  "12": fixed("Due date", 6, "date"),
+  "13": fixed("Packaging date", 6, "date"),
+  "15": fixed("Best before", 6, "date"),
+  "16": fixed("Sell by", 6, "date"),
+  "17": fixed("Expiry date", 6, "date"),
+  "20": fixed("Variant", 2),
+  "21": variable("Serial number", 20),
+  "22": variable("Consumer product variant", 20),
+  "235": variable("Third-party serial", 28),
+  "240": variable("Additional product ID", 30),
+  "241": variable("Customer part number", 30),
+  "250": variable("Secondary serial", 30),
+  "30": variable("Variable count", 8, "numeric"),
+  "37": variable("Count of trade items", 8, "numeric"),
+  "400": variable("Customer order number", 30),
+  "401": variable("Consignment number", 30),
+  "402": fixed("Shipment ID", 17, "numeric", true),
+  "410": fixed("Ship to GLN", 13, "numeric", true),
+  "411": fixed("Bill to GLN", 13, "numeric", true),
+  "412": fixed("Purchased from GLN", 13, "numeric", true),
+  "413": fixed("Ship for GLN", 13, "numeric", true),
+  "414": fixed("Location GLN", 13, "numeric", true),
+  "415": fixed("Invoicing party GLN", 13, "numeric", true),
+  "420": variable("Ship to postal code", 20),
+  "421": variable("Ship to postal code with country", 12),
+  "422": fixed("Country of origin", 3),
+  "7003": fixed("Expiry date and time", 10),
+  "8004": variable("GIAI", 30),
+  "8020": variable("Payment slip reference", 25),
+  "90": variable("Internal", 30),
+};
+
+// Measures, where the fourth digit of the AI is the decimal point position
+const MEASURE_DEFINITIONS: Record<string, string> = {
+  "310": "Net weight (kg)",
+  "311": "Length (m)",
+  "312": "Width (m)",
+  "313": "Height (m)",
+  "315": "Net volume (l)",
+  "320": "Net weight (lb)",
+  "330": "Gross weight (kg)",
+  "392": "Price",
+  "393": "Price with currency",
+};
+
+export interface Gs1Element {
+  ai: string;
+  title: string;
+  value: string;
+  // Dates as YYYY-MM-DD and measures with their decimal point placed
+  formatted: string;
+  error?: string;
+}
+
+export interface Gs1Result {
+  elements: Gs1Element[];
+  // Problems that stopped parsing, e.g. an unknown AI
+  error?: string;
+}
+
+function lookupDefinition(data: string, position: number): { ai: string; definition: Gs1Definition } | null {
+  for (let length = 4; length >= 2; length--) {
+    const ai = data.slice(position, position + length);
+    if (AI_DEFINITIONS[ai]) {
+      return { ai, definition: AI_DEFINITIONS[ai] };
+    }
+  }
+  const measure = data.slice(position, position + 4);
+  const measureTitle = MEASURE_DEFINITIONS[measure.slice(0, 3)];
+  if (measureTitle && /^\d{4}$/.test(measure)) {
+    // Prices are variable length, the other measures are six digits
+    const definition = measure.startsWith("39")
+      ? variable(measureTitle, measure.startsWith("393") ? 18 : 15, "decimal")
+      : fixed(measureTitle, 6, "decimal");
+    return { ai: measure, definition };
+  }
+  // 91-99 are for company internal use
+  const internal = data.slice(position, position + 2);
+  if (/^9[1-9]$/.test(internal)) {
+    return { ai: internal, definition: variable("Company internal", 90) };
+  }
+  return null;
+}
+
+// YYMMDD, where day 00 means the last day of the month. Years more than 50
+// years ahead belong to the previous century.
+function formatDate(value: string) {
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  const currentYear = new Date().getFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (year - currentYear > 50) year -= 100;
+  if (currentYear - year > 49) year += 100;
+  if (month < 1 || month > 12) return null;
+  if (day === 0) {
+    day = new Date(year, month, 0).getDate();
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function formatValue(ai: string, definition: Gs1Definition, value: string): Pick<Gs1Element, "formatted" | "error"> {
+  if (definition.fixed && value.length !== definition.length) {
+    return { formatted: value, error: `Expected ${definition.length} characters` };
+  }
+  if (value.length > definition.length) {
+    return { formatted: value, error: `Longer than ${definition.length} characters` };
+  }
+  if (definition.type !== "alphanumeric" && !/^\d+$/.test(value)) {
+    return { formatted: value, error: "Must be numeric" };
+  }
+  if (definition.checkDigit && !verifyCheckDigit(value, "gs1")) {
+    return { formatted: value, error: "Check digit mismatch" };
+  }
+  if (definition.type === "date") {
+    const date = formatDate(value);
+    return date ? { formatted: date } : { formatted: value, error: "Invalid date" };
+  }
+  if (definition.type === "decimal") {
+    // 393n starts with a three-digit ISO currency code
+    const digits = ai.startsWith("393") ? value.slice(3) : value;
+    const decimals = Number(ai[3]);
+    const number = (Number(digits) / Math.pow(10, decimals)).toFixed(decimals);
+    return { formatted: ai.startsWith("393") ? `${number} (currency ${value.slice(0, 3)})` : number };
+  }
+  return { formatted: value };
+}
+
+// Accepts the bracketed human-readable form, e.g. "(01)09521234543213(10)ABC"
+function parseBracketed(content: string): Gs1Result | null {
+  const parts = /^(\(\d{2,4}\)[^(]*)+$/.test(content) ? content.match(/\(\d{2,4}\)[^(]*/g) : null;
+  if (!parts) {
+    return null;
+  }
+  const elements = parts.map((part) => {
+    const [, ai, value] = /^\((\d{2,4})\)(.*)$/.exec(part) as RegExpExecArray;
+    const match = lookupDefinition(ai, 0);
+    if (!match || match.ai !== ai) {
+      return { ai, title: "Unknown", value, formatted: value, error: "Unknown AI" };
+    }
+    return { ai, title: match.definition.title, value, ...formatValue(ai, match.definition, value) };
+  });
+  return { elements };
+}
+
+// QR mode indicators that can come before the FNC1 one
+const QR_MODE_FNC1_FIRST = 0x5;
+const QR_MODE_STRUCTURED_APPEND = 0x3;
+const QR_MODE_ECI = 0x7;
+
+/**
+ * Tells whether a QR Code's data codewords start in FNC1 first-position
+ * mode, which is what marks a GS1 QR Code. ZXing reads the mode but doesn't
+ * report it, nor a symbology identifier.
+ */
+export function isGs1QrCodewords(codewords: Uint8Array) {
+  let bit = 0;
+  const read = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++, bit++) {
+      value = (value << 1) | ((codewords[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    return value;
+  };
+
+  while (bit + 4 <= codewords.length * 8) {
+    const mode = read(4);
+    if (mode === QR_MODE_FNC1_FIRST) {
+      return true;
+    }
+    if (mode === QR_MODE_STRUCTURED_APPEND) {
+      // Symbol sequence and parity
+      read(16);
+    } else if (mode === QR_MODE_ECI) {
+      // The designator is one to three bytes, flagged by its leading bits
+      const first = read(8);
+      if (first & 0x80) read(first & 0x40 ? 16 : 8);
+    } else {
+      return false;
+    }
+  }
+  return false;
+}
+
+// Group separators alone aren't enough, since other formats such as
+// ISO/IEC 15434 use them too; a leading FNC1 has to be followed by a known AI
+export function isGs1(content: string) {
+  return (
+    SYMBOLOGY_PREFIX.test(content) ||
+    (content[0] === GROUP_SEPARATOR && lookupDefinition(content, 1) !== null) ||
+    /^\(\d{2,4}\)/.test(content)
+  );
+}
+
+/**
+ * Splits a GS1 element string into its AIs. Returns null for content that
+ * doesn't look like GS1 data at all, i.e. has no symbology identifier,
+ * leading FNC1 or bracketed AIs, or when not a single known AI is found.
+ */
+export function parseGs1(content: string): Gs1Result | null {
+  if (!isGs1(content)) {
+    return null;
+  }
+  const bracketed = parseBracketed(content);
+  if (bracketed) {
+    return bracketed.elements.some((element) => element.error !== "Unknown AI") ? bracketed : null;
+  }
+
+  const data = content.replace(SYMBOLOGY_PREFIX, "");
+  const elements: Gs1Element[] = [];
+  let position = 0;
+  while (position < data.length) {
+    if (data[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+    const match = lookupDefinition(data, position);
+    if (!match) {
+      return elements.length ? { elements, error: `Unknown AI at position ${position + 1}` } : null;
+    }
+
+    const { ai, definition } = match;
+    const start = position + ai.length;
+    let end: number;
+    if (definition.fixed && PREDEFINED_LENGTH_PREFIXES.includes(ai.slice(0, 2))) {
+      end = Math.min(start + definition.length, data.length);
+    } else {
+      const separator = data.indexOf(GROUP_SEPARATOR, start);
+      end = separator === -1 ? data.length : separator;
+    }
+    const value = data.slice(start, end);
+    elements.push({ ai, title: definition.title, value, ...formatValue(ai, definition, value) });
+    position = end;
+  }
+  return elements.length ? { elements } : null;
+}
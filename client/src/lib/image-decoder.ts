@@ -0,0 +1,29 @@
+import { createZxingDecoder } from "@/lib/zxing-decoder";
+import type { BarcodeDecoder, DecodedBarcode, DecoderOptions } from "@/lib/decoder";
+
+// Still images get their own ZXing decoder so imports never compete with the
+// live camera loop, and can use the slower try-harder mode.
+let decoder: BarcodeDecoder | null = null;
+
+export function isImageFile(file: File) {
+  return file.type.startsWith("image/");
+}
+
+/**
+ * Decodes the first barcode found in an image file. Resolves to null when
+ * the image contains no readable barcode of the given formats, and rejects
+ * when the file can't be read as an image.
+ */
+export async function decodeImageFile(file: Blob, options: DecoderOptions): Promise<DecodedBarcode | null> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error("File could not be read as an image");
+  }
+
+  decoder = decoder ?? createZxingDecoder();
+  // The worker handles messages in order, so the options apply to this decode
+  decoder.configure({ ...options, tryHarder: true });
+  return decoder.decode(bitmap);
+}
@@ -0,0 +1,68 @@
+// Handheld scanners in keyboard mode "type" each read much faster than a
+// person can, then press Enter. Bursts are told apart from human typing by
+// the gap between keystrokes.
+
+export interface KeyboardWedgeOptions {
+  // Longest gap between keystrokes that still counts as part of a burst
+  maxKeyIntervalMs: number;
+  prefix: string;
+  suffix: string;
+}
+
+// Shorter bursts are too easy to produce by accident (e.g. keyboard shortcuts)
+const MIN_BURST_LENGTH = 4;
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function stripAffixes(text: string, prefix: string, suffix: string) {
+  let stripped = text;
+  if (prefix && stripped.startsWith(prefix)) {
+    stripped = stripped.slice(prefix.length);
+  }
+  if (suffix && stripped.endsWith(suffix)) {
+    stripped = stripped.slice(0, -suffix.length);
+  }
+  return stripped;
+}
+
+/**
+ * Returns a keydown handler that calls `onScan` with the text of each
+ * Enter-terminated burst. Keystrokes aimed at form fields are left alone so
+ * typing into an input never triggers a scan.
+ */
+export function createKeyboardWedgeHandler(
+  options: KeyboardWedgeOptions,
+  onScan: (text: string) => void
+) {
+  let buffer = "";
+  let lastKeyAt = 0;
+
+  return (event: KeyboardEvent) => {
+    if (isEditableTarget(event.target) || event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+
+    const now = event.timeStamp;
+    const isBurst = now - lastKeyAt <= options.maxKeyIntervalMs;
+    lastKeyAt = now;
+
+    if (event.key === "Enter") {
+      const text = stripAffixes(buffer, options.prefix, options.suffix);
+      const complete = isBurst && buffer.length >= MIN_BURST_LENGTH;
+      buffer = "";
+      if (complete && text) {
+        event.preventDefault();
+        onScan(text);
+      }
+      return;
+    }
+
+    if (event.key.length !== 1) {
+      return;
+    }
+    // A slow keystroke starts a new burst
+    buffer = isBurst ? buffer + event.key : event.key;
+  };
+}
@@ -0,0 +1,238 @@
+import type { Scan } from "@shared/schema";
+
+// A list of barcode values expected in a shipment, checked off as scans are
+// saved. Scans that aren't on the list are kept as unexpected.
+
+const MANIFEST_STORAGE_KEY = 'manifest';
+
+// Fired on window whenever the stored manifest changes
+export const MANIFEST_CHANGED_EVENT = 'manifestChanged';
+
+export interface ManifestEntry {
+  value: string;
+  // The first scan that matched the entry
+  foundScanId?: number;
+  foundAt?: string;
+}
+
+export interface Manifest {
+  name: string;
+  // Column the values were taken from, used as the header when exporting
+  column: string;
+  importedAt: string;
+  entries: ManifestEntry[];
+  unexpected: { content: string; scanId: number; scannedAt: string }[];
+}
+
+export interface ManifestTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+// Column names that most likely hold the barcode value
+const VALUE_COLUMN_NAMES = ["value", "barcode", "code", "serial", "sscc", "gtin", "id"];
+
+// Splits CSV text into rows of fields, handling quoted fields with embedded
+// delimiters, quotes and line breaks. The delimiter is guessed from the header.
+function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+function parseJson(text: string): ManifestTable {
+  const data = JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : Object.values(data).find(Array.isArray) ?? [];
+  if (!items.length) {
+    throw new Error("Expected a list of values");
+  }
+  if (items.every((item) => typeof item !== "object" || item === null)) {
+    return { columns: ["value"], rows: items.map((item) => ({ value: String(item ?? "") })) };
+  }
+
+  const columns: string[] = [];
+  const rows = items.map((item) => {
+    const row: Record<string, string> = {};
+    Object.entries(item && typeof item === "object" ? item : { value: item }).forEach(([key, value]) => {
+      if (!columns.includes(key)) columns.push(key);
+      row[key] = value === null || value === undefined ? "" : String(value);
+    });
+    return row;
+  });
+  return { columns, rows };
+}
+
+/**
+ * Reads a CSV, JSON or plain text list into columns and rows. A CSV file's
+ * first row is taken as the header; a JSON file can be a list of values or
+ * of objects.
+ */
+export function parseManifestFile(text: string, fileName: string): ManifestTable {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+  if (fileName.toLowerCase().endsWith(".json") || /^[[{]/.test(trimmed)) {
+    try {
+      return parseJson(trimmed);
+    } catch (err) {
+      throw new Error(`Couldn't read JSON: ${err instanceof Error ? err.message : "invalid data"}`);
+    }
+  }
+
+  // Plain text lists have one value per line and no header
+  if (fileName.toLowerCase().endsWith(".txt")) {
+    const values = trimmed.split(/\r?\n/).filter((line) => line.trim());
+    return { columns: ["value"], rows: values.map((value) => ({ value })) };
+  }
+
+  const [header, ...lines] = parseCsv(trimmed);
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+  const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+  const rows = lines.map((fields) =>
+    Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? ""]))
+  );
+  return { columns, rows };
+}
+
+export function guessValueColumn(columns: string[]) {
+  return columns.find((column) => VALUE_COLUMN_NAMES.includes(column.toLowerCase())) ?? columns[0];
+}
+
+// Values are trimmed, and blank and repeated values dropped
+export function createManifest(name: string, table: ManifestTable, column: string): Manifest {
+  const values = new Set<string>();
+  table.rows.forEach((row) => {
+    const value = row[column]?.trim();
+    if (value) values.add(value);
+  });
+  return {
+    name,
+    column,
+    importedAt: new Date().toISOString(),
+    entries: Array.from(values).map((value) => ({ value })),
+    unexpected: [],
+  };
+}
+
+export function loadManifest(): Manifest | null {
+  try {
+    const stored = localStorage.getItem(MANIFEST_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading manifest from localStorage:', error);
+    return null;
+  }
+}
+
+export function saveManifest(manifest: Manifest) {
+  localStorage.setItem(MANIFEST_STORAGE_KEY, JSON.stringify(manifest));
+  window.dispatchEvent(new CustomEvent(MANIFEST_CHANGED_EVENT));
+}
+
+export function clearManifest() {
+  localStorage.removeItem(MANIFEST_STORAGE_KEY);
+  window.dispatchEvent(new CustomEvent(MANIFEST_CHANGED_EVENT));
+}
+
+/**
+ * Checks scans off the manifest, if one is loaded. Scans that match no entry
+ * are recorded as unexpected. Scans seen before, such as one read again as a
+ * duplicate, are only checked off once and listed as unexpected once.
+ */
+export function recordManifestScans(scans: Scan[]) {
+  const manifest = loadManifest();
+  if (!manifest || !scans.length) {
+    return;
+  }
+
+  const entries = new Map(manifest.entries.map((entry) => [entry.value, entry]));
+  const unexpected = [...manifest.unexpected];
+  let changed = false;
+  scans.forEach((scan) => {
+    const entry = entries.get(scan.content);
+    const scannedAt = new Date(scan.lastSeenAt ?? scan.timestamp).toISOString();
+    if (!entry) {
+      if (!unexpected.some((item) => item.scanId === scan.id)) {
+        unexpected.push({ content: scan.content, scanId: scan.id, scannedAt });
+        changed = true;
+      }
+    } else if (entry.foundScanId === undefined) {
+      entries.set(scan.content, { ...entry, foundScanId: scan.id, foundAt: scannedAt });
+      changed = true;
+    }
+  });
+  if (changed) {
+    saveManifest({ ...manifest, entries: Array.from(entries.values()), unexpected });
+  }
+}
+
+// Checks an entry off for a scan that was recorded as unexpected and has
+// since been corrected to the entry's value
+export function resolveUnexpectedScan(scanId: number, value: string) {
+  const manifest = loadManifest();
+  if (!manifest) {
+    return;
+  }
+  const foundAt = new Date().toISOString();
+  saveManifest({
+    ...manifest,
+    entries: manifest.entries.map((entry) =>
+      entry.value === value && entry.foundScanId === undefined ? { ...entry, foundScanId: scanId, foundAt } : entry
+    ),
+    unexpected: manifest.unexpected.filter((scan) => scan.scanId !== scanId),
+  });
+}
+
+export function getManifestSummary(manifest: Manifest) {
+  const found = manifest.entries.filter((entry) => entry.foundScanId !== undefined).length;
+  return {
+    expected: manifest.entries.length,
+    found,
+    missing: manifest.entries.length - found,
+    unexpected: manifest.unexpected.length,
+  };
+}
+
+// One value per line under the manifest's column name, quoted where needed
+export function exportMissingCsv(manifest: Manifest) {
+  const quote = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const missing = manifest.entries.filter((entry) => entry.foundScanId === undefined);
+  return [manifest.column, ...missing.map((entry) => entry.value)].map(quote).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,101 @@
+import type { DecodedBarcode, DecodedPoint } from "@/lib/decoder-protocol";
+import type { BarcodeDecoder, DecoderOptions } from "@/lib/decoder";
+
+// The Barcode Detection API isn't in the DOM lib typings yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+  cornerPoints: DecodedPoint[];
+}
+
+interface BarcodeDetectorInstance {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: BarcodeDetectorConstructor;
+  }
+}
+
+// ZXing format keys and their Barcode Detection API names
+const NATIVE_FORMATS: Record<string, string> = {
+  PDF_417: "pdf417",
+  QR_CODE: "qr_code",
+  DATA_MATRIX: "data_matrix",
+  AZTEC: "aztec",
+  CODE_128: "code_128",
+  EAN_13: "ean_13",
+  EAN_8: "ean_8",
+};
+
+const ZXING_FORMATS = Object.fromEntries(
+  Object.entries(NATIVE_FORMATS).map(([key, native]) => [native, key])
+);
+
+/**
+ * Resolves to true when the browser has a BarcodeDetector that can read
+ * every one of the given formats.
+ */
+export async function isNativeDecoderSupported(formats: string[]): Promise<boolean> {
+  if (!window.BarcodeDetector) {
+    return false;
+  }
+  try {
+    const supported = await window.BarcodeDetector.getSupportedFormats();
+    return formats.every((format) => supported.includes(NATIVE_FORMATS[format]));
+  } catch {
+    return false;
+  }
+}
+
+// Native backend: uses the browser's (often hardware-accelerated)
+// BarcodeDetector. Detection is already asynchronous, so no worker is needed.
+export function createNativeDecoder(): BarcodeDecoder {
+  if (!window.BarcodeDetector) {
+    throw new Error("BarcodeDetector is not supported in this browser");
+  }
+  const BarcodeDetector = window.BarcodeDetector;
+  let detector = new BarcodeDetector({ formats: [NATIVE_FORMATS.PDF_417] });
+
+  return {
+    backend: "native",
+    error: null,
+
+    configure({ formats }: DecoderOptions) {
+      const nativeFormats = formats
+        .map((format) => NATIVE_FORMATS[format])
+        .filter(Boolean);
+      detector = new BarcodeDetector({
+        formats: nativeFormats.length ? nativeFormats : [NATIVE_FORMATS.PDF_417],
+      });
+    },
+
+    async decode(bitmap: ImageBitmap, origin: DecodedPoint = { x: 0, y: 0 }): Promise<DecodedBarcode | null> {
+      try {
+        const [barcode] = await detector.detect(bitmap);
+        if (!barcode) {
+          return null;
+        }
+        return {
+          text: barcode.rawValue,
+          format: ZXING_FORMATS[barcode.format] ?? barcode.format.toUpperCase(),
+          cornerPoints: barcode.cornerPoints.map(({ x, y }) => ({
+            x: x + origin.x,
+            y: y + origin.y,
+          })),
+          rawBytes: null,
+        };
+      } finally {
+        bitmap.close();
+      }
+    },
+
+    dispose() {},
+  };
+}
@@ -0,0 +1,100 @@
+// Finds expected values a scan was probably meant to be, for reads that are
+// off by a character or two. Distances are Levenshtein edit distances, so a
+// misread character counts once, the same as its Hamming distance would.
+
+// Short values need a closer match, or every value would be near every other
+export function maxNearMatchDistance(length: number) {
+  return length < 6 ? 1 : 2;
+}
+
+export interface DiffPart {
+  text: string;
+  changed: boolean;
+}
+
+export interface NearMatch {
+  value: string;
+  distance: number;
+  // The expected value, split into runs that match the scan and runs that don't
+  parts: DiffPart[];
+}
+
+// Full edit-distance table; values are barcode-sized, so this stays small
+function distanceTable(from: string, to: string) {
+  const table: number[][] = [];
+  for (let i = 0; i <= from.length; i++) {
+    table.push([i]);
+    for (let j = 1; j <= to.length; j++) {
+      table[i][j] = i === 0
+        ? j
+        : Math.min(
+            table[i - 1][j] + 1,
+            table[i][j - 1] + 1,
+            table[i - 1][j - 1] + (from[i - 1] === to[j - 1] ? 0 : 1)
+          );
+    }
+  }
+  return table;
+}
+
+// Walks back through the table to find which characters of `to` were
+// substituted or inserted to get there from `from`
+function changedPositions(from: string, to: string, table: number[][]) {
+  const changed = new Set<number>();
+  let i = from.length;
+  let j = to.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && table[i][j] === table[i - 1][j - 1] + (from[i - 1] === to[j - 1] ? 0 : 1)) {
+      if (from[i - 1] !== to[j - 1]) changed.add(j - 1);
+      i--;
+      j--;
+    } else if (j > 0 && table[i][j] === table[i][j - 1] + 1) {
+      changed.add(j - 1);
+      j--;
+    } else {
+      // A character of `from` that `to` doesn't have; mark its neighbour
+      if (j > 0) changed.add(j - 1);
+      i--;
+    }
+  }
+  return changed;
+}
+
+function toParts(value: string, changed: Set<number>): DiffPart[] {
+  const parts: DiffPart[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const isChanged = changed.has(i);
+    const last = parts[parts.length - 1];
+    if (last && last.changed === isChanged) {
+      last.text += value[i];
+    } else {
+      parts.push({ text: value[i], changed: isChanged });
+    }
+  }
+  return parts;
+}
+
+/**
+ * Returns the expected values within a small edit distance of `content`,
+ * closest first. An exact match means there's nothing to suggest.
+ */
+export function findNearMatches(content: string, values: string[], limit = 3): NearMatch[] {
+  const maxDistance = maxNearMatchDistance(content.length);
+  const matches: NearMatch[] = [];
+  for (let v = 0; v < values.length; v++) {
+    const value = values[v];
+    if (value === content) {
+      return [];
+    }
+    // The length difference alone already rules most values out
+    if (Math.abs(value.length - content.length) > maxDistance) {
+      continue;
+    }
+    const table = distanceTable(content, value);
+    const distance = table[content.length][value.length];
+    if (distance <= maxDistance) {
+      matches.push({ value, distance, parts: toParts(value, changedPositions(content, value, table)) });
+    }
+  }
+  return matches.sort((a, b) => a.distance - b.distance).slice(0, limit);
+}
@@ -0,0 +1,181 @@
+// Image clean-up passes the ZXing worker can run before retrying a decode.
+// Everything operates on single-channel luminance buffers.
+
+export const PREPROCESSING_STEPS = {
+  grayscale: "Grayscale",
+  contrast: "Contrast stretch",
+  sharpen: "Sharpening",
+  binarize: "Adaptive binarization",
+  invert: "Inversion",
+} as const;
+
+export type PreprocessingStep = keyof typeof PREPROCESSING_STEPS;
+
+export const PREPROCESSING_STEP_KEYS = Object.keys(PREPROCESSING_STEPS) as [PreprocessingStep, ...PreprocessingStep[]];
+
+export const ROTATION_ANGLES = [90, 180, 270] as const;
+
+export interface PreprocessingOptions {
+  steps: PreprocessingStep[];
+  rotations: number[];
+}
+
+export interface LuminanceImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export function hasPreprocessing(options?: PreprocessingOptions) {
+  return !!options && (options.steps.length > 0 || options.rotations.length > 0);
+}
+
+// ZXing's own fast approximation, used for the plain first attempt
+export function toLuminance({ data, width, height }: ImageData): LuminanceImage {
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminances.length; i++) {
+    const offset = i * 4;
+    luminances[i] = (data[offset] + 2 * data[offset + 1] + data[offset + 2]) >> 2;
+  }
+  return { data: luminances, width, height };
+}
+
+// Proper BT.601 luma, which separates coloured inks better than the fast average
+export function toGrayscale({ data, width, height }: ImageData): LuminanceImage {
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminances.length; i++) {
+    const offset = i * 4;
+    luminances[i] = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  }
+  return { data: luminances, width, height };
+}
+
+// Stretches the 1st–99th percentile range to the full 0–255 range, which
+// helps with washed-out or glossy labels
+export function stretchContrast(image: LuminanceImage): LuminanceImage {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < image.data.length; i++) {
+    histogram[image.data[i]]++;
+  }
+
+  const cutoff = image.data.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] <= cutoff; low++) {
+    count += histogram[low];
+  }
+  for (let count = 0; high > 0 && count + histogram[high] <= cutoff; high--) {
+    count += histogram[high];
+  }
+  if (high <= low) {
+    return image;
+  }
+
+  const scale = 255 / (high - low);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (image.data[i] - low) * scale;
+  }
+  return { ...image, data };
+}
+
+// 3×3 sharpening kernel; edge pixels are copied as-is
+export function sharpen(image: LuminanceImage): LuminanceImage {
+  const { width, height } = image;
+  const source = image.data;
+  const data = new Uint8ClampedArray(source);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      data[i] = 5 * source[i] - source[i - 1] - source[i + 1] - source[i - width] - source[i + width];
+    }
+  }
+  return { ...image, data };
+}
+
+// Thresholds each pixel against the mean of its neighbourhood (computed with
+// an integral image), so uneven lighting and glare don't wash out the bars
+export function binarizeAdaptive(image: LuminanceImage): LuminanceImage {
+  const { width, height } = image;
+  const radius = Math.max(7, Math.floor(Math.min(width, height) / 16));
+  const offset = 7;
+
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += image.data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - radius);
+    const y2 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - radius);
+      const x2 = Math.min(width, x + radius + 1);
+      const sum =
+        integral[y2 * (width + 1) + x2] -
+        integral[y1 * (width + 1) + x2] -
+        integral[y2 * (width + 1) + x1] +
+        integral[y1 * (width + 1) + x1];
+      const mean = sum / ((x2 - x1) * (y2 - y1));
+      data[y * width + x] = image.data[y * width + x] < mean - offset ? 0 : 255;
+    }
+  }
+  return { ...image, data };
+}
+
+// For white-on-black labels
+export function invert(image: LuminanceImage): LuminanceImage {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 255 - image.data[i];
+  }
+  return { ...image, data };
+}
+
+// Rotates clockwise by a multiple of 90°
+export function rotate(image: LuminanceImage, angle: number): LuminanceImage {
+  const { width, height } = image;
+  const turns = ((Math.round(angle / 90) % 4) + 4) % 4;
+  if (turns === 0) {
+    return image;
+  }
+
+  const swap = turns % 2 === 1;
+  const newWidth = swap ? height : width;
+  const newHeight = swap ? width : height;
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [nx, ny] =
+        turns === 1 ? [height - 1 - y, x] : turns === 2 ? [width - 1 - x, height - 1 - y] : [y, width - 1 - x];
+      data[ny * newWidth + nx] = image.data[y * width + x];
+    }
+  }
+  return { data, width: newWidth, height: newHeight };
+}
+
+// Maps a point found in an image rotated by `angle` back to the unrotated
+// image of the given size
+export function unrotatePoint(
+  point: { x: number; y: number },
+  angle: number,
+  width: number,
+  height: number
+) {
+  const turns = ((Math.round(angle / 90) % 4) + 4) % 4;
+  switch (turns) {
+    case 1:
+      return { x: point.y, y: height - 1 - point.x };
+    case 2:
+      return { x: width - 1 - point.x, y: height - 1 - point.y };
+    case 3:
+      return { x: width - 1 - point.y, y: point.x };
+    default:
+      return point;
+  }
+}
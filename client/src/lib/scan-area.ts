@@ -0,0 +1,116 @@
+export interface VideoRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VideoFlip {
+  mirrorX: boolean;
+  mirrorY: boolean;
+}
+
+// The settings names describe the flip axis, so "Flip Horizontal" mirrors
+// the image top-to-bottom and "Flip Vertical" mirrors it left-to-right.
+export function getVideoFlip(settings: { flipHorizontal?: boolean; flipVertical?: boolean }): VideoFlip {
+  return {
+    mirrorX: !!settings.flipVertical,
+    mirrorY: !!settings.flipHorizontal,
+  };
+}
+
+export function getVideoTransform({ mirrorX, mirrorY }: VideoFlip): string {
+  return `${mirrorY ? "scaleY(-1)" : ""} ${mirrorX ? "scaleX(-1)" : ""}`.trim() || "none";
+}
+
+// Describes how an object-cover video is laid out inside its element: the
+// scale from video pixels to CSS pixels and where the video's top-left
+// corner lands (negative when the video is cropped on that side).
+function getCoverLayout(video: HTMLVideoElement) {
+  const { videoWidth, videoHeight, clientWidth, clientHeight } = video;
+  const scale = Math.max(clientWidth / videoWidth, clientHeight / videoHeight);
+  return {
+    scale,
+    offsetX: (clientWidth - videoWidth * scale) / 2,
+    offsetY: (clientHeight - videoHeight * scale) / 2,
+  };
+}
+
+/**
+ * Maps a rectangle in page coordinates (e.g. the scanner overlay frame) to
+ * the region of the video's intrinsic pixels that is displayed underneath it.
+ * Returns null when the video has no dimensions yet or the rect misses it.
+ */
+export function mapRectToVideo(rect: DOMRect, video: HTMLVideoElement, flip: VideoFlip): VideoRegion | null {
+  const { videoWidth, videoHeight, clientWidth, clientHeight } = video;
+  if (!videoWidth || !videoHeight || !clientWidth || !clientHeight) {
+    return null;
+  }
+
+  const videoRect = video.getBoundingClientRect();
+  let left = rect.left - videoRect.left;
+  let top = rect.top - videoRect.top;
+
+  // The flip transforms mirror the element around its centre
+  if (flip.mirrorX) {
+    left = clientWidth - (left + rect.width);
+  }
+  if (flip.mirrorY) {
+    top = clientHeight - (top + rect.height);
+  }
+
+  const { scale, offsetX, offsetY } = getCoverLayout(video);
+  const x1 = Math.max(0, Math.floor((left - offsetX) / scale));
+  const y1 = Math.max(0, Math.floor((top - offsetY) / scale));
+  const x2 = Math.min(videoWidth, Math.ceil((left + rect.width - offsetX) / scale));
+  const y2 = Math.min(videoHeight, Math.ceil((top + rect.height - offsetY) / scale));
+
+  if (x2 <= x1 || y2 <= y1) {
+    return null;
+  }
+
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+/**
+ * Maps a point in the video's intrinsic pixels to CSS pixels relative to
+ * the video element's top-left corner, as it appears on screen.
+ */
+export function mapPointToElement(point: { x: number; y: number }, video: HTMLVideoElement, flip: VideoFlip) {
+  const { scale, offsetX, offsetY } = getCoverLayout(video);
+  let x = point.x * scale + offsetX;
+  let y = point.y * scale + offsetY;
+  if (flip.mirrorX) {
+    x = video.clientWidth - x;
+  }
+  if (flip.mirrorY) {
+    y = video.clientHeight - y;
+  }
+  return { x, y };
+}
+
+// Monotone chain convex hull, used to outline a symbol from whatever
+// result points the decoder reported, in whatever order
+export function convexHull<T extends { x: number; y: number }>(points: T[]): T[] {
+  if (points.length < 3) {
+    return points;
+  }
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: T, a: T, b: T) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: T[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], sorted[i]) <= 0) {
+      lower.pop();
+    }
+    lower.push(sorted[i]);
+  }
+  const upper: T[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) {
+      upper.pop();
+    }
+    upper.push(sorted[i]);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
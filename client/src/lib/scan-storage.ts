@@ -0,0 +1,156 @@
+import type { InsertScan, Scan, ScanAuditEntry } from "@shared/schema";
+import { recordManifestScans } from "@/lib/manifest";
+import { evictSnapshots } from "@/lib/snapshots";
+
+const SCANS_STORAGE_KEY = 'scans';
+
+// Fired on window whenever the stored scan history changes
+export const SCAN_SAVED_EVENT = 'scanSaved';
+
+let lastScanId = 0;
+
+// Date.now() alone collides when several scans are saved in the same
+// millisecond (e.g. importing a batch of images)
+const nextScanId = () => {
+  lastScanId = Math.max(Date.now(), lastScanId + 1);
+  return lastScanId;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+// Snapshots share the storage quota with the history. When the history no
+// longer fits, snapshots are given up to make room rather than the scan.
+function writeScans(scans: Scan[]) {
+  const serialized = JSON.stringify(scans);
+  for (;;) {
+    try {
+      localStorage.setItem(SCANS_STORAGE_KEY, serialized);
+      return;
+    } catch (error) {
+      if (!isQuotaError(error)) {
+        throw error;
+      }
+      if (!evictSnapshots()) {
+        throw new Error("Storage is full, so the scan couldn't be saved. Clear the scan history to make room.");
+      }
+    }
+  }
+}
+
+export function loadScans(): Scan[] {
+  const storedScans = localStorage.getItem(SCANS_STORAGE_KEY);
+  return storedScans ? JSON.parse(storedScans) : [];
+}
+
+export function saveScan(scan: InsertScan): Scan {
+  const newScan: Scan = {
+    ...scan,
+    id: nextScanId(),
+    timestamp: new Date(),
+  };
+  writeScans([newScan, ...loadScans()]);
+  recordManifestScans([newScan]);
+  window.dispatchEvent(new CustomEvent(SCAN_SAVED_EVENT));
+  return newScan;
+}
+
+// Saves several scans with a single storage write and change event. The
+// first scan in the list ends up at the top of the history.
+export function saveScans(scans: InsertScan[]): Scan[] {
+  const timestamp = new Date();
+  const newScans: Scan[] = scans.map((scan) => ({
+    ...scan,
+    id: nextScanId(),
+    timestamp,
+  }));
+  writeScans([...newScans, ...loadScans()]);
+  recordManifestScans(newScans);
+  window.dispatchEvent(new CustomEvent(SCAN_SAVED_EVENT));
+  return newScans;
+}
+
+// Saves a scan reassembled from several segments together with the segment
+// scans, linked both ways. Only the combined scan is meant to be listed.
+export function saveCombinedScan(scan: InsertScan, segments: InsertScan[]): Scan {
+  const timestamp = new Date();
+  const combinedId = nextScanId();
+  const segmentScans: Scan[] = segments.map((segment) => ({
+    ...segment,
+    id: nextScanId(),
+    timestamp,
+    combinedScanId: combinedId,
+  }));
+  const combined: Scan = {
+    ...scan,
+    id: combinedId,
+    timestamp,
+    segmentIds: segmentScans.map((segment) => segment.id),
+  };
+  writeScans([combined, ...segmentScans, ...loadScans()]);
+  recordManifestScans([combined]);
+  window.dispatchEvent(new CustomEvent(SCAN_SAVED_EVENT));
+  return combined;
+}
+
+export function findLatestScan(content: string): Scan | undefined {
+  return loadScans().find((scan) => scan.content === content);
+}
+
+// Counts a suppressed duplicate read against the most recent scan with the
+// same content instead of adding a new row. The read still checks the value
+// off a manifest imported since the scan was first saved.
+export function recordDuplicate(content: string): Scan | null {
+  const scans = loadScans();
+  const index = scans.findIndex((scan) => scan.content === content);
+  if (index === -1) {
+    return null;
+  }
+
+  const updated: Scan = {
+    ...scans[index],
+    duplicateCount: (scans[index].duplicateCount ?? 0) + 1,
+    lastSeenAt: new Date(),
+  };
+  scans[index] = updated;
+  writeScans(scans);
+  recordManifestScans([updated]);
+  window.dispatchEvent(new CustomEvent(SCAN_SAVED_EVENT));
+  return updated;
+}
+
+// Replaces a scan's content, e.g. with the value it was misread from, and
+// keeps the change in the scan's audit trail
+export function correctScan(
+  id: number,
+  update: Pick<InsertScan, "content" | "validation" | "fields">,
+  reason: string
+): Scan | null {
+  const scans = loadScans();
+  const index = scans.findIndex((scan) => scan.id === id);
+  if (index === -1) {
+    return null;
+  }
+
+  const entry: ScanAuditEntry = {
+    timestamp: new Date(),
+    action: "corrected",
+    from: scans[index].content,
+    to: update.content,
+    reason,
+  };
+  const updated: Scan = {
+    ...scans[index],
+    ...update,
+    auditTrail: [...(scans[index].auditTrail ?? []), entry],
+  };
+  scans[index] = updated;
+  writeScans(scans);
+  window.dispatchEvent(new CustomEvent(SCAN_SAVED_EVENT));
+  return updated;
+}
+
+export function clearScans() {
+  localStorage.removeItem(SCANS_STORAGE_KEY);
+  window.dispatchEvent(new CustomEvent(SCAN_SAVED_EVENT));
+}
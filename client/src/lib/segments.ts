@@ -0,0 +1,124 @@
+import type { DecodedBarcode, DecodedSegment } from "@/lib/decoder-protocol";
+import { latin1Bytes } from "@/lib/encoding";
+
+// Reassembly of data split over several symbols, such as a long document
+// printed as a series of Macro PDF417 barcodes or structured-append QR codes.
+// Segments are buffered per group until every one of them has been read.
+
+// Groups that haven't seen a new segment for this long are dropped. Segments
+// of a group that has already been saved are ignored until they haven't
+// been seen for as long.
+export const SEGMENT_GROUP_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface SegmentGroup {
+  groupId: string;
+  format: string;
+  // Null until a segment reports the count, or the last segment is read
+  count: number | null;
+  // Structured append only
+  parity: number | null;
+  segments: Map<number, DecodedBarcode>;
+  updatedAt: number;
+}
+
+export interface SegmentProgress {
+  key: string;
+  format: string;
+  captured: number;
+  count: number | null;
+  // Only known once the count is
+  missing: number[];
+}
+
+// Group IDs are only unique per symbology
+export function segmentGroupKey(group: { format: string; groupId: string }) {
+  return `${group.format}:${group.groupId}`;
+}
+
+/**
+ * Adds one decoded segment to its group, starting the group if this is its
+ * first segment. Returns the group unchanged when the segment was already read.
+ */
+export function recordSegment(
+  group: SegmentGroup | null,
+  barcode: DecodedBarcode & { segment: DecodedSegment },
+  now: number
+): SegmentGroup {
+  const { segment } = barcode;
+  const current = group ?? {
+    groupId: segment.groupId,
+    format: barcode.format,
+    count: null,
+    parity: segment.parity ?? null,
+    segments: new Map(),
+    updatedAt: now,
+  };
+  if (current.segments.has(segment.index)) {
+    return current;
+  }
+
+  const segments = new Map(current.segments);
+  segments.set(segment.index, barcode);
+  return {
+    ...current,
+    count: segment.count ?? (segment.last ? segment.index + 1 : current.count),
+    segments,
+    updatedAt: now,
+  };
+}
+
+export function isGroupExpired(group: SegmentGroup, now: number) {
+  return now - group.updatedAt > SEGMENT_GROUP_TIMEOUT_MS;
+}
+
+export function getSegmentProgress(group: SegmentGroup): SegmentProgress {
+  const missing: number[] = [];
+  if (group.count !== null) {
+    for (let index = 0; index < group.count; index++) {
+      if (!group.segments.has(index)) missing.push(index);
+    }
+  }
+  return { key: segmentGroupKey(group), format: group.format, captured: group.segments.size, count: group.count, missing };
+}
+
+export function isGroupComplete(group: SegmentGroup) {
+  return group.count !== null && getSegmentProgress(group).missing.length === 0;
+}
+
+/**
+ * Joins the segments of a complete group in order. The combined bytes are
+ * only available when every segment reported its own.
+ */
+export function combineSegments(group: SegmentGroup): { text: string; rawBytes: Uint8Array | null; parts: DecodedBarcode[] } {
+  const parts = Array.from(group.segments.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, part]) => part);
+  const text = parts.map((part) => part.text).join("");
+
+  if (parts.some((part) => !part.rawBytes)) {
+    return { text, rawBytes: null, parts };
+  }
+  const rawBytes = new Uint8Array(parts.reduce((length, part) => length + (part.rawBytes as Uint8Array).length, 0));
+  let offset = 0;
+  for (let i = 0; i < parts.length; i++) {
+    rawBytes.set(parts[i].rawBytes as Uint8Array, offset);
+    offset += (parts[i].rawBytes as Uint8Array).length;
+  }
+  return { text, rawBytes, parts };
+}
+
+const xorBytes = (bytes: Uint8Array) => bytes.reduce((parity, byte) => parity ^ byte, 0);
+
+/**
+ * Checks the combined data of a structured-append group against its parity
+ * byte. The parity is taken over the bytes the symbols were made from, which
+ * depends on the encoding used, so both Latin-1 and UTF-8 are tried. Groups
+ * without a parity byte always pass.
+ */
+export function verifyParity(group: SegmentGroup, combined: { text: string; rawBytes: Uint8Array | null }) {
+  if (group.parity === null) {
+    return true;
+  }
+  const candidates = [combined.rawBytes, latin1Bytes(combined.text), new TextEncoder().encode(combined.text)];
+  return candidates.some((bytes) => bytes !== null && xorBytes(bytes) === group.parity);
+}
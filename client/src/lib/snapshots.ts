@@ -0,0 +1,145 @@
+import type { DecodedPoint } from "@/lib/decoder";
+
+const SNAPSHOTS_STORAGE_KEY = 'scanSnapshots';
+
+// Fired on window whenever the stored snapshots change
+export const SNAPSHOTS_CHANGED_EVENT = 'snapshotsChanged';
+
+// Snapshots share the origin's localStorage quota (around 5 million
+// characters) with the scan history, so they're kept well below it
+const SNAPSHOT_STORAGE_BUDGET = 1.5 * 1024 * 1024;
+
+export const SNAPSHOT_QUALITIES = {
+  low: { label: "Low", jpegQuality: 0.5, maxSize: 480 },
+  medium: { label: "Medium", jpegQuality: 0.7, maxSize: 800 },
+  high: { label: "High", jpegQuality: 0.85, maxSize: 1280 },
+} as const;
+
+export type SnapshotQuality = keyof typeof SNAPSHOT_QUALITIES;
+
+export const SNAPSHOT_QUALITY_KEYS = Object.keys(SNAPSHOT_QUALITIES) as [SnapshotQuality, ...SnapshotQuality[]];
+
+const THUMBNAIL_SIZE = 160;
+// Extra space kept around the symbol, as a fraction of its size
+const CROP_MARGIN = 0.15;
+
+export interface Snapshot {
+  scanId: number;
+  // JPEG data URLs
+  thumbnail: string;
+  image: string;
+}
+
+const renderJpeg = (
+  source: CanvasImageSource,
+  crop: { x: number; y: number; width: number; height: number },
+  maxSize: number,
+  quality: number
+) => {
+  const scale = Math.min(1, maxSize / Math.max(crop.width, crop.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
+  canvas.getContext("2d")?.drawImage(
+    source,
+    crop.x, crop.y, crop.width, crop.height,
+    0, 0, canvas.width, canvas.height
+  );
+  return canvas.toDataURL("image/jpeg", quality);
+};
+
+/**
+ * Captures the current video frame cropped to the bounding box of the
+ * detected symbol (plus a margin). Falls back to the whole frame when the
+ * decoder didn't report any points.
+ */
+export function captureSnapshot(
+  video: HTMLVideoElement,
+  points: DecodedPoint[],
+  quality: SnapshotQuality
+): Omit<Snapshot, "scanId"> | null {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) {
+    return null;
+  }
+
+  let crop = { x: 0, y: 0, width: videoWidth, height: videoHeight };
+  if (points.length >= 2) {
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const marginX = (Math.max(...xs) - minX) * CROP_MARGIN + 8;
+    const marginY = (Math.max(...ys) - minY) * CROP_MARGIN + 8;
+    const x = Math.max(0, Math.floor(minX - marginX));
+    const y = Math.max(0, Math.floor(minY - marginY));
+    crop = {
+      x,
+      y,
+      width: Math.min(videoWidth, Math.ceil(Math.max(...xs) + marginX)) - x,
+      height: Math.min(videoHeight, Math.ceil(Math.max(...ys) + marginY)) - y,
+    };
+  }
+
+  const { jpegQuality, maxSize } = SNAPSHOT_QUALITIES[quality];
+  return {
+    thumbnail: renderJpeg(video, crop, THUMBNAIL_SIZE, 0.6),
+    image: renderJpeg(video, crop, maxSize, jpegQuality),
+  };
+}
+
+export function loadSnapshots(): Snapshot[] {
+  try {
+    const storedSnapshots = localStorage.getItem(SNAPSHOTS_STORAGE_KEY);
+    return storedSnapshots ? JSON.parse(storedSnapshots) : [];
+  } catch (error) {
+    console.error('Error loading snapshots from localStorage:', error);
+    return [];
+  }
+}
+
+// Writes the snapshots, dropping the oldest ones until they fit both the
+// budget and whatever quota is actually left
+function writeSnapshots(snapshots: Snapshot[]) {
+  let remaining = snapshots;
+  while (remaining.length > 1 && JSON.stringify(remaining).length > SNAPSHOT_STORAGE_BUDGET) {
+    remaining = remaining.slice(0, -1);
+  }
+  while (remaining.length) {
+    try {
+      localStorage.setItem(SNAPSHOTS_STORAGE_KEY, JSON.stringify(remaining));
+      window.dispatchEvent(new CustomEvent(SNAPSHOTS_CHANGED_EVENT));
+      return;
+    } catch (error) {
+      // Most likely the storage quota; make room and try again
+      remaining = remaining.slice(0, -1);
+    }
+  }
+  clearSnapshots();
+}
+
+/**
+ * Stores a snapshot, keeping at most `limit` of the newest ones, within a
+ * storage budget that leaves room for the scan history.
+ */
+export function saveSnapshot(snapshot: Snapshot, limit: number) {
+  writeSnapshots([snapshot, ...loadSnapshots()].slice(0, limit));
+}
+
+/**
+ * Drops the older half of the stored snapshots to free up storage. Returns
+ * false when there were none left to drop.
+ */
+export function evictSnapshots() {
+  const snapshots = loadSnapshots();
+  if (!snapshots.length) {
+    return false;
+  }
+  writeSnapshots(snapshots.slice(0, Math.floor(snapshots.length / 2)));
+  return true;
+}
+
+export function clearSnapshots() {
+  localStorage.removeItem(SNAPSHOTS_STORAGE_KEY);
+  window.dispatchEvent(new CustomEvent(SNAPSHOTS_CHANGED_EVENT));
+}
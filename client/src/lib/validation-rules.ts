@@ -0,0 +1,213 @@
+import { z } from "zod";
+import type { ScanValidation } from "@shared/schema";
+import { CHECK_DIGIT_ALGORITHM_KEYS, verifyCheckDigit } from "@/lib/check-digits";
+
+export const RULE_OUTCOMES = {
+  accept: "Accept",
+  warn: "Warn",
+  reject: "Reject",
+} as const;
+
+export type RuleOutcome = keyof typeof RULE_OUTCOMES;
+
+export const RULE_OUTCOME_KEYS = Object.keys(RULE_OUTCOMES) as [RuleOutcome, ...RuleOutcome[]];
+
+export const RULE_COLORS = {
+  green: { label: "Green", badge: "bg-green-600 text-white hover:bg-green-600" },
+  blue: { label: "Blue", badge: "bg-blue-600 text-white hover:bg-blue-600" },
+  amber: { label: "Amber", badge: "bg-amber-500 text-white hover:bg-amber-500" },
+  red: { label: "Red", badge: "bg-red-600 text-white hover:bg-red-600" },
+  purple: { label: "Purple", badge: "bg-purple-600 text-white hover:bg-purple-600" },
+  gray: { label: "Gray", badge: "bg-gray-500 text-white hover:bg-gray-500" },
+} as const;
+
+export type RuleColor = keyof typeof RULE_COLORS;
+
+// Stored scans keep the color as a plain string, so fall back for unknown ones
+export const ruleBadgeClass = (color: string) =>
+  (RULE_COLORS[color as RuleColor] ?? RULE_COLORS.gray).badge;
+
+export const RULE_COLOR_KEYS = Object.keys(RULE_COLORS) as [RuleColor, ...RuleColor[]];
+
+export const CHARACTER_SETS = {
+  any: { label: "Any", pattern: null },
+  digits: { label: "Digits (0-9)", pattern: /^[0-9]*$/ },
+  uppercase: { label: "Uppercase letters and digits", pattern: /^[A-Z0-9]*$/ },
+  alphanumeric: { label: "Letters and digits", pattern: /^[A-Za-z0-9]*$/ },
+  hex: { label: "Hexadecimal", pattern: /^[0-9A-Fa-f]*$/ },
+  printable: { label: "Printable ASCII", pattern: /^[\x20-\x7e]*$/ },
+} as const;
+
+export type CharacterSet = keyof typeof CHARACTER_SETS;
+
+export const CHARACTER_SET_KEYS = Object.keys(CHARACTER_SETS) as [CharacterSet, ...CharacterSet[]];
+
+// Empty number inputs come through as "", which means "no limit"
+const optionalLength = z.preprocess(
+  (value) => (value === "" || value === null || value === undefined ? null : Number(value)),
+  z.number().int("Length must be a whole number").min(0, "Length must be positive").nullable()
+);
+
+// 1-based character positions; empty means the start or end of the content
+const optionalPosition = z.preprocess(
+  (value) => (value === "" || value === null || value === undefined ? null : Number(value)),
+  z.number().int("Position must be a whole number").min(1, "Positions start at 1").nullable()
+);
+
+export const CHECKSUM_MISMATCH = "Checksum mismatch";
+
+export const validationRuleSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().min(1, "Name is required"),
+    label: z.string(),
+    pattern: z.string().refine((pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Not a valid regular expression"),
+    minLength: optionalLength,
+    maxLength: optionalLength,
+    characterSet: z.enum(CHARACTER_SET_KEYS),
+    color: z.enum(RULE_COLOR_KEYS),
+    outcome: z.enum(RULE_OUTCOME_KEYS),
+    checkDigit: z.enum(["none", ...CHECK_DIGIT_ALGORITHM_KEYS]).default("none"),
+    // The part of the content covered by the check digit, which is its last character
+    checkDigitStart: optionalPosition.default(null),
+    checkDigitEnd: optionalPosition.default(null),
+  })
+  .refine((rule) => rule.minLength === null || rule.maxLength === null || rule.minLength <= rule.maxLength, {
+    message: "Minimum length can't be more than the maximum",
+    path: ["maxLength"],
+  })
+  .refine((rule) => rule.checkDigitStart === null || rule.checkDigitEnd === null || rule.checkDigitStart < rule.checkDigitEnd, {
+    message: "The check digit range must end after it starts",
+    path: ["checkDigitEnd"],
+  });
+
+export type ValidationRule = z.infer<typeof validationRuleSchema>;
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export function createRule(overrides: Partial<ValidationRule> = {}): ValidationRule {
+  return {
+    id: createRuleId(),
+    name: "New rule",
+    label: "",
+    pattern: "",
+    minLength: null,
+    maxLength: null,
+    characterSet: "any",
+    color: "green",
+    outcome: "accept",
+    checkDigit: "none",
+    checkDigitStart: null,
+    checkDigitEnd: null,
+    ...overrides,
+  };
+}
+
+export const DEFAULT_RULES: ValidationRule[] = [
+  {
+    id: "default",
+    name: "Expected data",
+    label: "Matches the expected format",
+    pattern: "^0934[0-9A-E]{28}$",
+    minLength: null,
+    maxLength: null,
+    characterSet: "any",
+    color: "green",
+    outcome: "accept",
+    checkDigit: "none",
+    checkDigitStart: null,
+    checkDigitEnd: null,
+  },
+];
+
+export function matchesRule(content: string, rule: ValidationRule) {
+  if (rule.minLength !== null && content.length < rule.minLength) return false;
+  if (rule.maxLength !== null && content.length > rule.maxLength) return false;
+  const characterSet = CHARACTER_SETS[rule.characterSet]?.pattern;
+  if (characterSet && !characterSet.test(content)) return false;
+  if (!rule.pattern) return true;
+  try {
+    return new RegExp(rule.pattern).test(content);
+  } catch {
+    return false;
+  }
+}
+
+// Rules saved before check digits were added have no algorithm set
+export function verifyRuleCheckDigit(content: string, rule: ValidationRule) {
+  if (!rule.checkDigit || rule.checkDigit === "none") {
+    return true;
+  }
+  const start = (rule.checkDigitStart ?? 1) - 1;
+  const end = rule.checkDigitEnd ?? content.length;
+  return verifyCheckDigit(content.slice(start, end), rule.checkDigit);
+}
+
+/**
+ * Runs the rules in order and returns the first one the content satisfies,
+ * as stored with the scan. Content that no rule matches is rejected, as is
+ * content that matches a rule but fails its check digit.
+ */
+export function evaluateRules(content: string, rules: ValidationRule[]): ScanValidation {
+  const rule = rules.find((candidate) => matchesRule(content, candidate));
+  if (!rule) {
+    return { ruleId: null, ruleName: "No matching rule", label: "", color: "red", outcome: "reject" };
+  }
+  const validation: ScanValidation = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    label: rule.label,
+    color: rule.color,
+    outcome: rule.outcome,
+  };
+  if (!verifyRuleCheckDigit(content, rule)) {
+    return { ...validation, outcome: "reject", reason: CHECKSUM_MISMATCH };
+  }
+  return validation;
+}
+
+// Turns a data pattern from older settings into an equivalent rule list
+export function rulesFromPattern(pattern: string): ValidationRule[] {
+  return [{ ...DEFAULT_RULES[0], pattern }];
+}
+
+// Values of the named capture groups in a pattern, e.g. `(?<lot>[0-9]{6})`
+export function extractFields(content: string, pattern: string): Record<string, string> | undefined {
+  let groups: Record<string, string | undefined> | undefined;
+  try {
+    groups = new RegExp(pattern).exec(content)?.groups;
+  } catch {
+    return undefined;
+  }
+  if (!groups) {
+    return undefined;
+  }
+  const fields: Record<string, string> = {};
+  Object.keys(groups).forEach((name) => {
+    // Groups in an optional part of the pattern may not have matched
+    if (groups?.[name] !== undefined) {
+      fields[name] = groups[name] as string;
+    }
+  });
+  return Object.keys(fields).length ? fields : undefined;
+}
+
+// Everything the rules have to say about a scan, ready to be saved with it
+export function validateContent(
+  content: string,
+  rules: ValidationRule[]
+): { validation: ScanValidation; fields?: Record<string, string> } {
+  const validation = evaluateRules(content, rules);
+  const rule = rules.find((candidate) => candidate.id === validation.ruleId);
+  return {
+    validation,
+    fields: rule ? extractFields(content, rule.pattern) : undefined,
+  };
+}
@@ -0,0 +1,135 @@
+// A malformed pattern counts as a failed match rather than throwing, since
+// patterns come straight from user input.
+export function matchesPattern(content: string, pattern?: string | null): boolean {
+  try {
+    return new RegExp(pattern || "").test(content);
+  } catch {
+    return false;
+  }
+}
+
+export interface PatternCheck {
+  matches: boolean;
+  // Where the content stops fitting the pattern: the index of the first
+  // character that can't be part of a match, or content.length when the
+  // content is fine so far but incomplete. Null when the content matches or
+  // the pattern is too complex to trace character by character.
+  errorIndex: number | null;
+}
+
+interface PatternToken {
+  // Matches a single character
+  atom: RegExp;
+  min: number;
+  max: number;
+}
+
+// Splits an anchored pattern made of single-character atoms (literals,
+// escapes, `.` and classes) with optional quantifiers into tokens. Returns
+// null for anything else, e.g. groups, alternation or unanchored patterns.
+function tokenizePattern(pattern: string): PatternToken[] | null {
+  if (!pattern.startsWith("^") || !pattern.endsWith("$") || pattern.endsWith("\\$")) {
+    return null;
+  }
+  const body = pattern.slice(1, -1);
+  const tokens: PatternToken[] = [];
+
+  let i = 0;
+  while (i < body.length) {
+    const start = i;
+    const char = body[i];
+    if ("()|^$*+?{}".includes(char)) {
+      return null;
+    }
+    if (char === "[") {
+      i++;
+      while (i < body.length && body[i] !== "]") {
+        i += body[i] === "\\" ? 2 : 1;
+      }
+      if (i >= body.length) {
+        return null;
+      }
+      i++;
+    } else if (char === "\\") {
+      const escaped = body[i + 1];
+      // Word boundaries and back-references don't consume a single character
+      if (escaped === undefined || /[bB1-9k]/.test(escaped)) {
+        return null;
+      }
+      i += escaped === "x" ? 4 : escaped === "u" ? 6 : 2;
+    } else {
+      i++;
+    }
+
+    let atom: RegExp;
+    try {
+      atom = new RegExp(`^(?:${body.slice(start, i)})$`);
+    } catch {
+      return null;
+    }
+
+    let min = 1;
+    let max = 1;
+    const quantifier = /^(?:([?*+])|\{(\d+)(?:(,)(\d*))?\})\??/.exec(body.slice(i));
+    if (quantifier) {
+      const [text, symbol, from, comma, to] = quantifier;
+      if (symbol) {
+        min = symbol === "+" ? 1 : 0;
+        max = symbol === "?" ? 1 : Infinity;
+      } else {
+        min = Number(from);
+        max = !comma ? min : to ? Number(to) : Infinity;
+      }
+      i += text.length;
+    }
+    tokens.push({ atom, min, max });
+  }
+  return tokens;
+}
+
+/**
+ * Checks content against a pattern and, for simple anchored patterns like
+ * the default `^0934[0-9A-E]{28}$`, works out where the content breaks it.
+ */
+export function checkPattern(content: string, pattern?: string | null): PatternCheck {
+  const matches = matchesPattern(content, pattern);
+  const tokens = matches || !pattern ? null : tokenizePattern(pattern);
+  if (!tokens) {
+    return { matches, errorIndex: null };
+  }
+
+  // Walk the tokens like an NFA; a state is [token index, repetitions so far]
+  const close = (states: [number, number][]) => {
+    const closed = [...states];
+    for (let s = 0; s < closed.length; s++) {
+      const [index, count] = closed[s];
+      if (index < tokens.length && count >= tokens[index].min &&
+          !closed.some(([i, c]) => i === index + 1 && c === 0)) {
+        closed.push([index + 1, 0]);
+      }
+    }
+    return closed;
+  };
+
+  let states = close([[0, 0]]);
+  for (let position = 0; position < content.length; position++) {
+    const next: [number, number][] = [];
+    for (let s = 0; s < states.length; s++) {
+      const [index, count] = states[s];
+      const token = tokens[index];
+      if (!token || count >= token.max || !token.atom.test(content[position])) {
+        continue;
+      }
+      // Past the minimum of an unbounded token, the exact count no longer matters
+      const nextCount = token.max === Infinity ? Math.min(count + 1, token.min) : count + 1;
+      if (!next.some(([i, c]) => i === index && c === nextCount)) {
+        next.push([index, nextCount]);
+      }
+    }
+    if (!next.length) {
+      return { matches, errorIndex: position };
+    }
+    states = close(next);
+  }
+  return { matches, errorIndex: content.length };
+}
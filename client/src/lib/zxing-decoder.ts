@@ -0,0 +1,88 @@
+import {
+  createDecoderWorker,
+  type DecodedBarcode,
+  type DecodedPoint,
+  type DecoderRequest,
+  type DecoderResponse,
+} from "@/lib/decoder-protocol";
+import type { BarcodeDecoder, DecoderOptions } from "@/lib/decoder";
+
+// ZXing backend: frames are decoded on a dedicated worker, and each decode
+// call is matched to its response by request id.
+export function createZxingDecoder(): BarcodeDecoder {
+  const worker = createDecoderWorker();
+  let nextRequestId = 0;
+  const pendingRequests = new Map<
+    number,
+    { resolve: (result: DecodedBarcode | null) => void; reject: (error: Error) => void }
+  >();
+
+  // Set once the worker has failed to load or crashed
+  let failure: Error | null = null;
+
+  const postToWorker = (request: DecoderRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(request, transfer);
+  };
+
+  const rejectPending = (error: Error) => {
+    pendingRequests.forEach(({ reject }) => reject(error));
+    pendingRequests.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<DecoderResponse>) => {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+    if (!pending) return;
+    pendingRequests.delete(response.id);
+
+    if (response.type === "error") {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response.result);
+    }
+  };
+
+  // Decode errors are reported as responses, so this means the worker
+  // itself is gone and no pending request will ever be answered
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    failure = new Error(event.message || "The decoder stopped working");
+    worker.terminate();
+    rejectPending(failure);
+  };
+
+  // A response that couldn't be read can't be matched to its request
+  worker.onmessageerror = () => {
+    rejectPending(new Error("The decoder sent a response that couldn't be read"));
+  };
+
+  return {
+    backend: "zxing",
+
+    get error() {
+      return failure;
+    },
+
+    configure({ formats, tryHarder, preprocessing, characterSet }: DecoderOptions) {
+      postToWorker({ type: "configure", formats, tryHarder, preprocessing, characterSet });
+    },
+
+    decode(bitmap: ImageBitmap, origin?: DecodedPoint) {
+      if (failure) {
+        bitmap.close();
+        return Promise.reject(failure);
+      }
+      const id = ++nextRequestId;
+      return new Promise((resolve, reject) => {
+        pendingRequests.set(id, { resolve, reject });
+        postToWorker({ type: "decode", id, bitmap, origin }, [bitmap]);
+      });
+    },
+
+    dispose() {
+      worker.terminate();
+      pendingRequests.forEach(({ resolve }) => resolve(null));
+      pendingRequests.clear();
+    },
+  };
+}
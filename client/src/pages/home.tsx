@@ -1,11 +1,15 @@
 import { useState } from "react";
 import { Camera } from "@/components/scanner/Camera";
 import { ScanResult } from "@/components/scanner/ScanResult";
+import { ImageImport } from "@/components/scanner/ImageImport";
+import { Manifest } from "@/components/scanner/Manifest";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useScannerSettings } from "@/hooks/use-scanner-settings";
 
 export default function Home() {
   const [isScanning, setIsScanning] = useState(true);
+  const [settings, setSettings] = useScannerSettings();
   const { toast } = useToast();
 
   const handleError = (error: Error) => {
@@ -25,10 +29,14 @@ export default function Home() {
               onError={handleError}
               isScanning={isScanning}
               setIsScanning={setIsScanning}
+              settings={settings}
+              onSettingsChange={setSettings}
             />
           </div>
         </Card>
-        <ScanResult className="mt-4" />
+        <ImageImport settings={settings} className="mt-4" />
+        <Manifest className="mt-4" />
+        <ScanResult rules={settings.validationRules} className="mt-4" />
       </div>
     </div>
   );
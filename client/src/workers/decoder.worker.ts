@@ -0,0 +1,263 @@
+import {
+  BinaryBitmap,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+  ChecksumException,
+  FormatException,
+  RGBLuminanceSource,
+  ResultMetadataType,
+  type PDF417ResultMetadata,
+  type Result,
+} from "@zxing/library";
+import { buildDecodeHints, formatKey } from "@/lib/barcode-formats";
+import {
+  PREPROCESSING_STEPS,
+  PREPROCESSING_STEP_KEYS,
+  binarizeAdaptive,
+  invert,
+  rotate,
+  sharpen,
+  stretchContrast,
+  toGrayscale,
+  toLuminance,
+  unrotatePoint,
+  type LuminanceImage,
+  type PreprocessingOptions,
+} from "@/lib/preprocessing";
+import { decodeBytes, latin1Bytes, type CharacterSetHint } from "@/lib/encoding";
+import { isGs1QrCodewords } from "@/lib/gs1";
+import type {
+  DecodedBarcode,
+  DecodedPoint,
+  DecodedSegment,
+  DecoderRequest,
+  DecoderResponse,
+} from "@/lib/decoder-protocol";
+
+// The project is type-checked against the DOM lib, so view the worker scope
+// through the Worker interface, which has the same postMessage/onmessage shape.
+const ctx = self as unknown as Worker;
+
+const reader = new MultiFormatReader();
+reader.setHints(buildDecodeHints([]));
+let preprocessing: PreprocessingOptions = { steps: [], rotations: [] };
+let characterSet: CharacterSetHint = "auto";
+
+let canvas: OffscreenCanvas | null = null;
+let canvasContext: OffscreenCanvasRenderingContext2D | null = null;
+
+const getImageData = (bitmap: ImageBitmap) => {
+  if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+    canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvasContext = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  if (!canvasContext) {
+    throw new Error("OffscreenCanvas 2D context not available");
+  }
+  canvasContext.drawImage(bitmap, 0, 0);
+  return canvasContext.getImageData(0, 0, bitmap.width, bitmap.height);
+};
+
+const tryDecode = ({ data, width, height }: LuminanceImage) => {
+  const source = new RGBLuminanceSource(data, width, height, width, height, 0, 0);
+  try {
+    return reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(source)));
+  } catch (err) {
+    // No barcode in this image, or one that couldn't be read cleanly
+    if (
+      err instanceof NotFoundException ||
+      err instanceof ChecksumException ||
+      err instanceof FormatException
+    ) {
+      return null;
+    }
+    throw err;
+  }
+};
+
+interface Attempt {
+  step: string;
+  image: LuminanceImage;
+  rotation: number;
+}
+
+// Hands each image to try to `visit`, cheapest first, until it returns a
+// result. Enhancement steps are applied cumulatively, inversion is tried as
+// an alternative to the enhanced image, and rotations are tried last since
+// they multiply the work.
+const findFirst = <T>(imageData: ImageData, visit: (attempt: Attempt) => T | null): T | null => {
+  const original = toLuminance(imageData);
+  let found = visit({ step: "original", image: original, rotation: 0 });
+  if (found) return found;
+
+  const { rotations } = preprocessing;
+  // Run the steps in their canonical order, whatever order they were picked in
+  const steps = PREPROCESSING_STEP_KEYS.filter((step) => preprocessing.steps.includes(step));
+  const applied: string[] = [];
+  let enhanced = original;
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    if (step === "invert") continue;
+    enhanced =
+      step === "grayscale" ? toGrayscale(imageData)
+        : step === "contrast" ? stretchContrast(enhanced)
+        : step === "sharpen" ? sharpen(enhanced)
+        : binarizeAdaptive(enhanced);
+    applied.push(PREPROCESSING_STEPS[step]);
+    found = visit({ step: applied.join(" + "), image: enhanced, rotation: 0 });
+    if (found) return found;
+  }
+
+  const variants = [{ step: applied.join(" + "), image: enhanced }];
+  if (steps.includes("invert")) {
+    const step = applied.concat(PREPROCESSING_STEPS.invert).join(" + ");
+    const image = invert(enhanced);
+    variants.push({ step, image });
+    found = visit({ step, image, rotation: 0 });
+    if (found) return found;
+  }
+
+  for (let r = 0; r < rotations.length; r++) {
+    for (let v = 0; v < variants.length; v++) {
+      found = visit({
+        step: [variants[v].step, `rotated ${rotations[r]}°`].filter(Boolean).join(" + "),
+        image: rotate(variants[v].image, rotations[r]),
+        rotation: rotations[r],
+      });
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Character sets ZXing may have picked for byte-mode data
+const PAYLOAD_CHARACTER_SETS = ["ISO-8859-1", "UTF-8", "Shift_JIS"];
+
+// getRawBytes() is the symbol's codewords rather than its payload (and null
+// for PDF417), so use the byte-mode segments when the format reports them.
+// Mixed-mode QR codes only report their byte-mode part, so the segments are
+// only used when they decode back to the whole text. Otherwise ZXing decoded
+// the bytes as Latin-1, which can be undone.
+const payloadBytes = (result: Result): Uint8Array | null => {
+  const text = result.getText();
+  const segments = result.getResultMetadata()?.get(ResultMetadataType.BYTE_SEGMENTS) as Uint8Array[] | undefined;
+  if (segments?.length) {
+    const bytes = new Uint8Array(segments.reduce((length, segment) => length + segment.length, 0));
+    let offset = 0;
+    for (let i = 0; i < segments.length; i++) {
+      bytes.set(segments[i], offset);
+      offset += segments[i].length;
+    }
+    const characterSets = characterSet === "auto" ? PAYLOAD_CHARACTER_SETS : [characterSet, ...PAYLOAD_CHARACTER_SETS];
+    if (characterSets.some((name) => decodeBytes(bytes, name) === text)) {
+      return bytes;
+    }
+  }
+  return latin1Bytes(text);
+};
+
+// GS1 QR Codes get the "]Q3" symbology identifier, the way ZXing marks
+// GS1-128 with "]C1", so they're recognized as GS1 data. Later parts of a
+// structured-append message don't, as their text is appended to the first.
+const isGs1QrCode = (result: Result) => {
+  const codewords = result.getRawBytes();
+  const sequence = result.getResultMetadata()?.get(ResultMetadataType.STRUCTURED_APPEND_SEQUENCE) as number | undefined;
+  return !!codewords && isGs1QrCodewords(codewords) && !(sequence !== undefined && sequence >> 4 > 0);
+};
+
+// PDF417 always decodes byte compaction as Latin-1, ignoring the character
+// set hint, so apply the hint here instead
+const decodeText = (result: Result, bytes: Uint8Array | null) => {
+  const text = result.getText();
+  const format = formatKey(result.getBarcodeFormat());
+  if (format === "QR_CODE") {
+    return isGs1QrCode(result) ? `]Q3${text}` : text;
+  }
+  if (characterSet === "auto" || !bytes || format !== "PDF_417") {
+    return text;
+  }
+  return decodeBytes(bytes, characterSet) ?? text;
+};
+
+// Macro PDF417 and structured-append QR symbols say which part of a larger
+// message they hold
+const readSegment = (result: Result): DecodedSegment | undefined => {
+  const metadata = result.getResultMetadata();
+  const sequence = metadata?.get(ResultMetadataType.STRUCTURED_APPEND_SEQUENCE) as number | undefined;
+  if (sequence !== undefined && sequence >= 0) {
+    // The high nibble is the symbol's position, the low nibble the total minus one
+    const parity = metadata.get(ResultMetadataType.STRUCTURED_APPEND_PARITY) as number;
+    const index = sequence >> 4;
+    const count = (sequence & 0x0f) + 1;
+    // Symbols of the same message share the parity and the total
+    return { groupId: `${parity}/${count}`, index, count, last: index === count - 1, parity };
+  }
+
+  const macro = metadata?.get(ResultMetadataType.PDF417_EXTRA_METADATA) as PDF417ResultMetadata | undefined;
+  if (!macro?.getFileId()) {
+    return undefined;
+  }
+  const count = macro.getSegmentCount();
+  return {
+    groupId: macro.getFileId(),
+    index: macro.getSegmentIndex(),
+    count: count > 0 ? count : null,
+    last: macro.isLastSegment(),
+  };
+};
+
+const decode = (bitmap: ImageBitmap, origin: DecodedPoint = { x: 0, y: 0 }): DecodedBarcode | null => {
+  const imageData = getImageData(bitmap);
+
+  return findFirst(imageData, ({ step, image, rotation }): DecodedBarcode | null => {
+    const result = tryDecode(image);
+    if (!result) return null;
+
+    const rawBytes = payloadBytes(result);
+    return {
+      text: decodeText(result, rawBytes),
+      format: formatKey(result.getBarcodeFormat()),
+      cornerPoints: (result.getResultPoints() ?? [])
+        // PDF417 reports null for row indicator points it couldn't locate
+        .filter((point) => point)
+        .map((point) => {
+          const { x, y } = unrotatePoint(
+            { x: point.getX(), y: point.getY() },
+            rotation,
+            imageData.width,
+            imageData.height
+          );
+          return { x: x + origin.x, y: y + origin.y };
+        }),
+      rawBytes,
+      decodeStep: step,
+      segment: readSegment(result),
+    };
+  });
+};
+
+ctx.onmessage = (event: MessageEvent<DecoderRequest>) => {
+  const request = event.data;
+
+  if (request.type === "configure") {
+    characterSet = request.characterSet ?? "auto";
+    reader.setHints(buildDecodeHints(request.formats, request.tryHarder, characterSet));
+    preprocessing = request.preprocessing ?? { steps: [], rotations: [] };
+    return;
+  }
+
+  let response: DecoderResponse;
+  try {
+    response = { type: "result", id: request.id, result: decode(request.bitmap, request.origin) };
+  } catch (err) {
+    response = {
+      type: "error",
+      id: request.id,
+      message: err instanceof Error ? err.message : "Failed to decode frame",
+    };
+  } finally {
+    request.bitmap.close();
+  }
+  ctx.postMessage(response);
+};
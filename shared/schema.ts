@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+export const scanSources = ["camera", "image", "keyboard", "manual"] as const;
+
+export const scanOutcomes = ["accept", "warn", "reject"] as const;
+
+// The validation rule a scan matched, copied onto the scan so the history
+// still reads correctly after the rule is edited or removed
+export const scanValidationSchema = z.object({
+  ruleId: z.string().nullable(),
+  ruleName: z.string(),
+  label: z.string(),
+  color: z.string(),
+  outcome: z.enum(scanOutcomes),
+  // Why the scan failed even though the rule's pattern matched
+  reason: z.string().optional(),
+});
+
+// A change made to a scan after it was saved, and by what
+export const scanAuditEntrySchema = z.object({
+  timestamp: z.coerce.date(),
+  action: z.enum(["corrected"]),
+  from: z.string(),
+  to: z.string(),
+  reason: z.string(),
+});
+
+export const insertScanSchema = z.object({
+  content: z.string(),
+  format: z.string(),
+  // Data pattern used by older versions, before validation rules
+  pattern: z.string().nullable().optional(),
+  validation: scanValidationSchema.optional(),
+  // Values of the named capture groups in the matched rule's pattern
+  fields: z.record(z.string()).optional(),
+  // Scans saved before sources were tracked all came from the camera
+  source: z.enum(scanSources).optional(),
+  // Pre-processing pass that produced the read, when it wasn't a plain decode
+  decodeStep: z.string().optional(),
+  // Base64 of the payload bytes behind the content, when the decoder exposed them
+  rawBytes: z.string().optional(),
+  // Where this scan sits within data split over several symbols
+  segment: z.object({ groupId: z.string(), index: z.number(), count: z.number() }).optional(),
+});
+
+export const scanSchema = insertScanSchema.extend({
+  id: z.number(),
+  timestamp: z.coerce.date(),
+  // Reads suppressed as duplicates of this scan, and when the last one happened
+  duplicateCount: z.number().optional(),
+  lastSeenAt: z.coerce.date().optional(),
+  // Links between a scan reassembled from segments and the segment scans
+  segmentIds: z.array(z.number()).optional(),
+  combinedScanId: z.number().optional(),
+  auditTrail: z.array(scanAuditEntrySchema).optional(),
+});
+
+export type InsertScan = z.infer<typeof insertScanSchema>;
+export type Scan = z.infer<typeof scanSchema>;
+export type ScanSource = (typeof scanSources)[number];
+export type ScanValidation = z.infer<typeof scanValidationSchema>;
+export type ScanAuditEntry = z.infer<typeof scanAuditEntrySchema>;